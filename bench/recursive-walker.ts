@@ -0,0 +1,48 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export interface RecursiveWalkerStats {
+	size: number;
+	fileCount: number;
+}
+
+/**
+ * Sizes a tree the way scans did before the work queue: every directory lists
+ * its entries and sizes all of them at once with `Promise.all`, so nothing
+ * bounds how many `lstat` calls are in flight. Kept only as a reference point
+ * for the queue-based sizing in `getArtifactStats`.
+ */
+export const sizeWithRecursiveWalker = async (
+	targetPath: string,
+): Promise<RecursiveWalkerStats> => {
+	let stat;
+	try {
+		stat = await fs.lstat(targetPath);
+	} catch {
+		return {size: 0, fileCount: 0};
+	}
+
+	if (!stat.isDirectory()) return {size: stat.size, fileCount: 1};
+
+	let entries;
+	try {
+		entries = await fs.readdir(targetPath, {withFileTypes: true});
+	} catch {
+		return {size: 0, fileCount: 0};
+	}
+
+	const nested = await Promise.all(
+		entries.map(async entry =>
+			sizeWithRecursiveWalker(path.join(targetPath, entry.name)),
+		),
+	);
+
+	let size = 0;
+	let fileCount = 0;
+	for (const stats of nested) {
+		size += stats.size;
+		fileCount += stats.fileCount;
+	}
+
+	return {size, fileCount};
+};
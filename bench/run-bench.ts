@@ -1,14 +1,22 @@
 import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import process from 'node:process';
 import {performance} from 'node:perf_hooks';
 import {fileURLToPath} from 'node:url';
 import {deleteItems} from '../src/core/delete.js';
-import {scanArtifacts} from '../src/core/scanner.js';
+import {getArtifactStats, scanArtifacts} from '../src/core/scanner.js';
+import type {ScannerOptions} from '../src/core/types.js';
+import {
+	DEFAULT_SCAN_CONCURRENCY,
+	parseConcurrency,
+} from '../src/core/work-queue.js';
 import {
 	generateFixtures,
 	resolveBenchScenario,
 	type BenchScenario,
 } from './generate-fixtures.js';
+import {sizeWithRecursiveWalker} from './recursive-walker.js';
 
 export interface BenchmarkSummary {
 	samples: number[];
@@ -39,6 +47,16 @@ export interface BenchmarkMetricRun {
 	summary: BenchmarkSummary;
 }
 
+export interface BenchmarkConcurrencyRun extends BenchmarkMetricRun {
+	concurrency: number;
+}
+
+/** Sizing the whole fixture tree with the pre-queue walker and the queue. */
+export interface BenchmarkWalkerComparison {
+	recursive: BenchmarkMetricRun;
+	queue: BenchmarkMetricRun;
+}
+
 export interface BenchmarkGateReport {
 	metric: GateMetric;
 	rationale: string;
@@ -51,6 +69,12 @@ export interface BenchmarkReport {
 	metrics: {
 		scanArtifacts: BenchmarkMetricRun;
 		cleanup: BenchmarkMetricRun;
+		/** Scans that reuse the scan index written by a priming scan. */
+		scanArtifactsWarmCache?: BenchmarkMetricRun;
+		/** Scan runs repeated at other `concurrency` limits, when requested. */
+		scanConcurrency?: BenchmarkConcurrencyRun[];
+		/** Tree sizing with the recursive walker against the work queue. */
+		walkerComparison?: BenchmarkWalkerComparison;
 	};
 	gate?: BenchmarkGateReport;
 }
@@ -107,6 +131,22 @@ export const CLEANUP_RUN_DEFAULTS: Record<BenchScenario, ScenarioRunDefaults> =
 		},
 	};
 
+// The full scenario compares the default scan concurrency against a tight and
+// an effectively unbounded limit, so a slower work queue shows up locally.
+export const SCENARIO_CONCURRENCY_LEVELS: Record<BenchScenario, number[]> = {
+	quick: [],
+	medium: [],
+	full: [8, DEFAULT_SCAN_CONCURRENCY, 4096],
+};
+
+// The full scenario also sizes the fixture tree with the recursive walker scans
+// used before the work queue, so queue overhead shows up next to it.
+export const SCENARIO_COMPARES_WALKERS: Record<BenchScenario, boolean> = {
+	quick: false,
+	medium: false,
+	full: true,
+};
+
 // Cleanup timings are still reported, but the CI gate stays on scan latency to
 // avoid flaky failures from filesystem delete variance across runners.
 const SCAN_GATE_RATIONALE =
@@ -197,6 +237,8 @@ interface ParsedOptions {
 	threshold: number;
 	baselinePath: string;
 	json: boolean;
+	concurrencyLevels: number[];
+	compareWalkers: boolean;
 }
 
 const parseIntegerFlag = (value: string, flagName: string): number => {
@@ -217,6 +259,19 @@ const parseNumberFlag = (value: string, flagName: string): number => {
 	return parsed;
 };
 
+export const parseConcurrencyLevels = (value: string): number[] => {
+	const levels = value
+		.split(',')
+		.map(level => level.trim())
+		.filter(Boolean)
+		.map(level => parseConcurrency(level));
+	if (levels.length === 0) {
+		throw new Error('--concurrency expects a comma-separated list.');
+	}
+
+	return [...new Set(levels)];
+};
+
 const parseBenchmarkCliArgs = (argv: string[]): ParsedOptions => {
 	let mode: 'run' | 'gate' = 'run';
 	let scenario: BenchScenario = 'quick';
@@ -227,6 +282,8 @@ const parseBenchmarkCliArgs = (argv: string[]): ParsedOptions => {
 		new URL('./baselines.json', import.meta.url),
 	);
 	let json = false;
+	let concurrencyOverride: number[] | undefined;
+	let compareWalkers: boolean | undefined;
 
 	const takeNextValue = (index: number, flag: string): string => {
 		const value = argv[index + 1];
@@ -245,6 +302,11 @@ const parseBenchmarkCliArgs = (argv: string[]): ParsedOptions => {
 			continue;
 		}
 
+		if (argument === '--compare-walkers') {
+			compareWalkers = true;
+			continue;
+		}
+
 		if (argument === '--mode') {
 			const value = takeNextValue(index, '--mode');
 			if (value !== 'run' && value !== 'gate') {
@@ -337,6 +399,21 @@ const parseBenchmarkCliArgs = (argv: string[]): ParsedOptions => {
 			continue;
 		}
 
+		if (argument === '--concurrency') {
+			concurrencyOverride = parseConcurrencyLevels(
+				takeNextValue(index, '--concurrency'),
+			);
+			index += 1;
+			continue;
+		}
+
+		if (argument.startsWith('--concurrency=')) {
+			concurrencyOverride = parseConcurrencyLevels(
+				argument.slice('--concurrency='.length),
+			);
+			continue;
+		}
+
 		throw new Error(`Unknown argument: ${argument}`);
 	}
 
@@ -357,6 +434,9 @@ const parseBenchmarkCliArgs = (argv: string[]): ParsedOptions => {
 		threshold,
 		baselinePath,
 		json,
+		concurrencyLevels:
+			concurrencyOverride ?? SCENARIO_CONCURRENCY_LEVELS[scenario],
+		compareWalkers: compareWalkers ?? SCENARIO_COMPARES_WALKERS[scenario],
 	};
 };
 
@@ -385,9 +465,12 @@ const loadScenarioBaseline = async (
 	};
 };
 
-const runSingleScanSample = async (cwd: string): Promise<number> => {
+const runSingleScanSample = async (
+	cwd: string,
+	options: ScannerOptions = {},
+): Promise<number> => {
 	const startedAt = performance.now();
-	await scanArtifacts(cwd);
+	await scanArtifacts(cwd, options);
 	return performance.now() - startedAt;
 };
 
@@ -412,13 +495,11 @@ const runMeasuredBenchmark = async (
 ): Promise<BenchmarkSummary> => {
 	for (let index = 0; index < warmups; index += 1) {
 		// Warmups reduce startup noise from initial filesystem caching.
-		// eslint-disable-next-line no-await-in-loop
 		await runSample();
 	}
 
 	const samples: number[] = [];
 	for (let index = 0; index < iterations; index += 1) {
-		// eslint-disable-next-line no-await-in-loop
 		const elapsedMs = await runSample();
 		samples.push(elapsedMs);
 	}
@@ -430,10 +511,83 @@ export const runBenchmark = async (
 	cwd: string,
 	iterations: number,
 	warmups: number,
+	concurrency?: number,
 ): Promise<BenchmarkSummary> =>
 	runMeasuredBenchmark(iterations, warmups, async () =>
-		runSingleScanSample(cwd),
+		runSingleScanSample(cwd, {concurrency}),
+	);
+
+export const runWarmCacheBenchmark = async (
+	cwd: string,
+	iterations: number,
+	warmups: number,
+): Promise<BenchmarkSummary> => {
+	const cacheDirectory = await fs.mkdtemp(
+		path.join(os.tmpdir(), 'next-prune-bench-cache-'),
 	);
+	try {
+		// Writes the index that every measured scan then reads.
+		await scanArtifacts(cwd, {cacheDirectory});
+		return await runMeasuredBenchmark(iterations, warmups, async () =>
+			runSingleScanSample(cwd, {cacheDirectory}),
+		);
+	} finally {
+		await fs.rm(cacheDirectory, {recursive: true, force: true});
+	}
+};
+
+/**
+ * Times sizing `rootDir` as one tree with the recursive walker and with
+ * `getArtifactStats`. Both must agree on the size and file count first, so
+ * the two medians measure the same work.
+ */
+export const runWalkerComparison = async (
+	rootDir: string,
+	iterations: number,
+	warmups: number,
+): Promise<BenchmarkWalkerComparison> => {
+	const [recursiveStats, queueStats] = await Promise.all([
+		sizeWithRecursiveWalker(rootDir),
+		getArtifactStats(rootDir),
+	]);
+	if (
+		recursiveStats.size !== queueStats.size ||
+		recursiveStats.fileCount !== queueStats.fileCount
+	) {
+		throw new Error(
+			`Walkers disagree on ${rootDir}: recursive ${recursiveStats.size} bytes in ${recursiveStats.fileCount} files, queue ${queueStats.size} bytes in ${queueStats.fileCount} files.`,
+		);
+	}
+
+	const runSizing =
+		(size: (targetPath: string) => Promise<unknown>) =>
+		async (): Promise<number> => {
+			const startedAt = performance.now();
+			await size(rootDir);
+			return performance.now() - startedAt;
+		};
+
+	return {
+		recursive: {
+			warmups,
+			iterations,
+			summary: await runMeasuredBenchmark(
+				iterations,
+				warmups,
+				runSizing(sizeWithRecursiveWalker),
+			),
+		},
+		queue: {
+			warmups,
+			iterations,
+			summary: await runMeasuredBenchmark(
+				iterations,
+				warmups,
+				runSizing(async targetPath => getArtifactStats(targetPath)),
+			),
+		},
+	};
+};
 
 export const runCleanupBenchmark = async (
 	scenario: BenchScenario,
@@ -449,6 +603,9 @@ export const buildBenchmarkReport = (input: {
 	mode: 'run' | 'gate';
 	scan: BenchmarkMetricRun;
 	cleanup: BenchmarkMetricRun;
+	warmCacheScan?: BenchmarkMetricRun;
+	scanConcurrency?: BenchmarkConcurrencyRun[];
+	walkerComparison?: BenchmarkWalkerComparison;
 	gate?: BenchmarkGateReport;
 }): BenchmarkReport => ({
 	scenario: input.scenario,
@@ -456,6 +613,15 @@ export const buildBenchmarkReport = (input: {
 	metrics: {
 		scanArtifacts: input.scan,
 		cleanup: input.cleanup,
+		...(input.warmCacheScan
+			? {scanArtifactsWarmCache: input.warmCacheScan}
+			: {}),
+		...(input.scanConcurrency?.length
+			? {scanConcurrency: input.scanConcurrency}
+			: {}),
+		...(input.walkerComparison
+			? {walkerComparison: input.walkerComparison}
+			: {}),
 	},
 	gate: input.gate,
 });
@@ -492,6 +658,42 @@ const printRunSummary = (
 	);
 };
 
+const formatChange = (measuredMs: number, referenceMs: number): string => {
+	const change = ((measuredMs - referenceMs) / referenceMs) * 100;
+	return `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+};
+
+const printWarmCacheSummary = (
+	scanSummary: BenchmarkSummary,
+	warmCacheSummary: BenchmarkSummary,
+): void => {
+	console.log(
+		`Warm-cache scan median: ${formatMilliseconds(warmCacheSummary.medianMs)} (${formatChange(warmCacheSummary.medianMs, scanSummary.medianMs)} vs cold)`,
+	);
+};
+
+const printConcurrencySummary = (
+	scanSummary: BenchmarkSummary,
+	runs: readonly BenchmarkConcurrencyRun[],
+): void => {
+	for (const run of runs) {
+		console.log(
+			`Scan median @ concurrency ${run.concurrency}: ${formatMilliseconds(run.summary.medianMs)} (${formatChange(run.summary.medianMs, scanSummary.medianMs)} vs default ${DEFAULT_SCAN_CONCURRENCY})`,
+		);
+	}
+};
+
+const printWalkerComparison = (comparison: BenchmarkWalkerComparison): void => {
+	const recursiveMs = comparison.recursive.summary.medianMs;
+	const queueMs = comparison.queue.summary.medianMs;
+	console.log(
+		`Tree sizing median (recursive walker): ${formatMilliseconds(recursiveMs)}`,
+	);
+	console.log(
+		`Tree sizing median (work queue): ${formatMilliseconds(queueMs)} (${formatChange(queueMs, recursiveMs)} vs recursive)`,
+	);
+};
+
 const main = async (): Promise<void> => {
 	const options = parseBenchmarkCliArgs(process.argv.slice(2));
 	const fixtures = await generateFixtures(options.scenario);
@@ -503,6 +705,35 @@ const main = async (): Promise<void> => {
 			options.iterations,
 			options.warmups,
 		);
+		const warmCacheSummary = await runWarmCacheBenchmark(
+			fixtures.rootDir,
+			options.iterations,
+			options.warmups,
+		);
+		const scanConcurrency: BenchmarkConcurrencyRun[] = [];
+		for (const concurrency of options.concurrencyLevels) {
+			const summary = await runBenchmark(
+				fixtures.rootDir,
+				options.iterations,
+				options.warmups,
+				concurrency,
+			);
+			scanConcurrency.push({
+				concurrency,
+				warmups: options.warmups,
+				iterations: options.iterations,
+				summary,
+			});
+		}
+
+		const walkerComparison = options.compareWalkers
+			? await runWalkerComparison(
+					fixtures.rootDir,
+					options.iterations,
+					options.warmups,
+				)
+			: undefined;
+
 		const cleanupSummary = await runCleanupBenchmark(
 			options.scenario,
 			options.cleanupIterations,
@@ -541,6 +772,13 @@ const main = async (): Promise<void> => {
 				iterations: options.cleanupIterations,
 				summary: cleanupSummary,
 			},
+			warmCacheScan: {
+				warmups: options.warmups,
+				iterations: options.iterations,
+				summary: warmCacheSummary,
+			},
+			scanConcurrency,
+			walkerComparison,
 			gate,
 		});
 
@@ -548,6 +786,9 @@ const main = async (): Promise<void> => {
 			console.log(JSON.stringify(report, null, 2));
 		} else {
 			printRunSummary(options.scenario, options, scanSummary, cleanupSummary);
+			printWarmCacheSummary(scanSummary, warmCacheSummary);
+			printConcurrencySummary(scanSummary, scanConcurrency);
+			if (walkerComparison) printWalkerComparison(walkerComparison);
 			if (gate) {
 				console.log(`Gate metric: ${gate.metric}`);
 				console.log(`Gate rationale: ${gate.rationale}`);
@@ -2,6 +2,7 @@
 
 import process from 'node:process';
 import path from 'node:path';
+import {spinner} from '@clack/prompts';
 import meow from 'meow';
 import {findUnusedAssets} from './core/asset-scanner.js';
 import {
@@ -10,11 +11,37 @@ import {
 	resolveAllowedCandidateTypes,
 	resolveCandidateType,
 } from './core/candidates.js';
-import {filterNeverDelete, loadConfig} from './core/config.js';
-import {deleteItems, getTotalSize} from './core/delete.js';
-import {human, timeAgo} from './core/format.js';
-import {getArtifactStats, scanArtifacts} from './core/scanner.js';
-import type {PruneConfig, RuntimeScanOptions, ScanItem} from './core/types.js';
+import {
+	filterNeverDelete,
+	isSymlinkPolicy,
+	loadConfig,
+	normalizeSymlinkPolicy,
+} from './core/config.js';
+import {
+	deleteItems,
+	getTotalSize,
+	isMostlyHardLinked,
+	toReclaimableSize,
+} from './core/delete.js';
+import {createConfigDetectors} from './core/detectors.js';
+import {
+	formatDisplayPath,
+	formatSkippedSymlink,
+	human,
+	timeAgo,
+} from './core/format.js';
+import {findTrackedFilesByRoot} from './core/git-index.js';
+import {resolveCacheDirectory} from './core/scan-index.js';
+import {getArtifactStats, scanArtifactsStream} from './core/scanner.js';
+import type {
+	ProjectRoot,
+	PruneConfig,
+	RuntimeScanOptions,
+	ScanEvent,
+	ScanItem,
+	SkippedSymlink,
+} from './core/types.js';
+import {findProjectRoots} from './core/workspaces.js';
 import {runInteractiveApp} from './index.js';
 import type {RuntimeProps} from './index.js';
 
@@ -23,6 +50,16 @@ type ResolvedScanOptions = RuntimeScanOptions & {
 	includeProjectLocalPmCaches: boolean;
 };
 
+interface ScannedItems {
+	items: ScanItem[];
+	skippedSymlinks: SkippedSymlink[];
+}
+
+interface ProjectScan extends ScannedItems {
+	project: ProjectRoot;
+	config: PruneConfig;
+}
+
 const cli = meow(
 	`
 	Usage
@@ -41,8 +78,9 @@ const cli = meow(
 	  --cold-storage
 	                  Aggressive slim mode for archival/cold-storage cleanup
 	  --monorepo    Scan as a monorepo/workspace root
+	  --projects    Sweep every Next.js project or workspace root below --cwd
 	  --cleanup-scope=<scope>
-	                  Cleanup scope (e.g. all, cold-storage, safe, node-modules, pm-caches)
+	                  Cleanup scope (e.g. all, cold-storage, global, safe, node-modules, pm-caches, task-caches, tests)
 	  --no-node-modules
 	                  Exclude node_modules candidates
 	  --no-pm-caches
@@ -51,7 +89,24 @@ const cli = meow(
 	                  Enable workspace auto-detection
 	  --max-depth=<n>
 	                  Maximum scan depth
+	  --concurrency=<n>
+	                  Maximum filesystem calls in flight while scanning (default: 64)
+	  --symlinks=<policy>
+	                  Symlink handling: skip, report or follow-contained (default: skip)
+	  --one-file-system
+	                  Stay on the filesystem of --cwd; skip mounted directories
+	  --no-cache    Size everything from scratch without reading or writing the scan index
+	  --rebuild-cache
+	                  Ignore the scan index and write a fresh one
+	  --granular-next
+	                  Offer .next caches, standalone output and trace separately
+	  --evaluate-config
+	                  Resolve next.config distDir by running the config in a sandboxed child process
 	  --apply       Required with --yes to delete node_modules/pm-caches
+	                  global caches and protected extra artifacts
+	  --allow-tracked
+	                  Allow --yes to delete candidates containing git-tracked files
+	  --verbose     Report mount points skipped by --one-file-system
 
 	Examples
 	  $ next-prune
@@ -110,43 +165,210 @@ const cli = meow(
 			maxDepth: {
 				type: 'number',
 			},
+			concurrency: {
+				type: 'number',
+			},
+			symlinks: {
+				type: 'string',
+			},
+			projects: {
+				type: 'boolean',
+				default: false,
+			},
+			cache: {
+				type: 'boolean',
+				default: true,
+			},
+			rebuildCache: {
+				type: 'boolean',
+				default: false,
+			},
+			oneFileSystem: {
+				type: 'boolean',
+				default: false,
+			},
+			granularNext: {
+				type: 'boolean',
+				default: false,
+			},
+			evaluateConfig: {
+				type: 'boolean',
+				default: false,
+			},
 			apply: {
 				type: 'boolean',
 				default: false,
 			},
+			allowTracked: {
+				type: 'boolean',
+				default: false,
+			},
+			verbose: {
+				type: 'boolean',
+				default: false,
+			},
 		},
 	},
 );
 
-const outputListResults = (items: readonly ScanItem[], cwd: string): void => {
+const formatListLine = (
+	size: number,
+	mtime: Date | undefined,
+	label: string,
+): string => {
+	const time = mtime ? `(${timeAgo(mtime)})` : '';
+	return `${human(size).padStart(6)}  ${time.padEnd(10)} ${label}\n`;
+};
+
+const formatFrameworkTag = (item: ScanItem): string =>
+	item.framework ? ` [${item.framework}]` : '';
+
+const formatNodeModulesTags = (item: ScanItem): string =>
+	item.nodeModulesTags ? ` [${item.nodeModulesTags.join(', ')}]` : '';
+
+// Rows show what deleting frees, like the totals, so the tag gives the disk
+// usage that mostly stays behind.
+const formatHardLinkTag = (item: ScanItem): string =>
+	isMostlyHardLinked(item)
+		? ` (${human(item.diskUsage)} on disk, hardlinked elsewhere)`
+		: '';
+
+const outputListRows = (
+	items: readonly ScanItem[],
+	cwd: string,
+	indent = '',
+): void => {
+	const childrenByParent = new Map<string, ScanItem[]>();
 	for (const item of items) {
-		const rel = path.relative(cwd, item.path) || '.';
-		const time = item.mtime ? `(${timeAgo(item.mtime)})` : '';
+		if (!item.parentPath) continue;
+		const children = childrenByParent.get(item.parentPath) ?? [];
+		children.push(item);
+		childrenByParent.set(item.parentPath, children);
+	}
+
+	const printedParents = new Set<string>();
+	for (const item of items) {
+		if (item.parentPath) {
+			if (printedParents.has(item.parentPath)) continue;
+			printedParents.add(item.parentPath);
+
+			const children = childrenByParent.get(item.parentPath) ?? [];
+			const parentRel = path.relative(cwd, item.parentPath) || '.';
+			process.stdout.write(
+				formatListLine(
+					getTotalSize(children),
+					undefined,
+					`${indent}📁 ${parentRel}`,
+				),
+			);
+			for (const child of children) {
+				const childRel = path.relative(item.parentPath, child.path);
+				const icon = child.isDirectory === false ? '📄' : '📁';
+				process.stdout.write(
+					formatListLine(
+						toReclaimableSize(child),
+						child.mtime,
+						`${indent}  └ ${icon} ${childRel}${formatFrameworkTag(child)}${formatHardLinkTag(child)}`,
+					),
+				);
+			}
+			continue;
+		}
+
+		const rel = formatDisplayPath(item.path, cwd);
 		const type = item.type === 'asset' ? '⚠️ ' : '';
 		const icon = item.isDirectory === false ? '📄' : '📁';
 		process.stdout.write(
-			`${human(item.size).padStart(6)}  ${time.padEnd(10)} ${type}${icon} ${rel}\n`,
+			formatListLine(
+				toReclaimableSize(item),
+				item.mtime,
+				`${indent}${type}${icon} ${rel}${formatFrameworkTag(item)}${formatNodeModulesTags(item)}${formatHardLinkTag(item)}`,
+			),
 		);
 	}
+};
 
+const outputListResults = (items: readonly ScanItem[], cwd: string): void => {
+	outputListRows(items, cwd);
 	process.stdout.write(
 		`\nTotal: ${human(getTotalSize(items))} in ${items.length} items\n`,
 	);
 };
 
+interface ScanProgress {
+	onScanEvent: (event: ScanEvent) => void;
+	stop: (message: string, code?: number) => void;
+}
+
+const createScanProgress = (): ScanProgress => {
+	const progress = spinner();
+	let directoriesVisited = 0;
+	// Summed like the final total: nested candidates count once, and shared
+	// hardlinks once their correction arrives.
+	const sizedItems = new Map<string, ScanItem>();
+	progress.start('Scanning');
+
+	return {
+		onScanEvent(event) {
+			if (event.type === 'directory-visited') {
+				directoriesVisited = event.directoriesVisited;
+			} else if (event.type === 'candidate-sized') {
+				sizedItems.set(event.item.path, event.item);
+			} else if (event.type === 'reclaimable-size') {
+				const item = sizedItems.get(event.path);
+				if (!item) return;
+				sizedItems.set(event.path, {
+					...item,
+					reclaimableSize: event.reclaimableSize,
+				});
+			} else {
+				return;
+			}
+
+			progress.message(
+				`Scanning: ${directoriesVisited} directories visited, ${sizedItems.size} candidates sized (${human(getTotalSize(sizedItems.values()))})`,
+			);
+		},
+		stop(message, code) {
+			progress.stop(message, code);
+		},
+	};
+};
+
 const collectItems = async (
 	cwd: string,
 	config: PruneConfig,
 	scanOptions: ResolvedScanOptions,
-): Promise<ScanItem[]> => {
-	let items = await scanArtifacts(cwd, scanOptions);
+	onScanEvent?: (event: ScanEvent) => void,
+	signal?: AbortSignal,
+): Promise<ScannedItems> => {
+	let items: ScanItem[] = [];
+	const skippedSymlinks: SkippedSymlink[] = [];
+	for await (const event of scanArtifactsStream(cwd, {
+		...scanOptions,
+		signal,
+	})) {
+		onScanEvent?.(event);
+		if (event.type === 'candidate-sized') items.push(event.item);
+		if (event.type === 'symlink-skipped') skippedSymlinks.push(event.symlink);
+		if (event.type === 'reclaimable-size') {
+			const item = items.find(entry => entry.path === event.path);
+			if (item) item.reclaimableSize = event.reclaimableSize;
+		}
+	}
 
 	if (config.checkUnusedAssets) {
 		const assetPaths = await findUnusedAssets(cwd, {
 			skipDirs: scanOptions.skipDirs,
+			signal,
 		});
 		const assetStats = await Promise.all(
-			assetPaths.map(async assetPath => getArtifactStats(assetPath)),
+			assetPaths.map(async assetPath =>
+				getArtifactStats(assetPath, {
+					signal,
+					concurrency: scanOptions.concurrency,
+				}),
+			),
 		);
 		const assetItems = assetPaths.map((assetPath, index) => ({
 			path: assetPath,
@@ -163,26 +385,156 @@ const collectItems = async (
 	);
 	items.sort((left, right) => right.size - left.size);
 
-	return items;
+	return {items, skippedSymlinks};
+};
+
+/**
+ * Sweep mode: scans every project root below `cwd` in turn, each with its own
+ * config under the same flags. Roots are searched as deep as `--max-depth` or
+ * the `maxScanDepth` of `rootConfig`, the config at `cwd`.
+ */
+const collectProjectScans = async (
+	cwd: string,
+	rootConfig: PruneConfig,
+	argv: readonly string[],
+	onScanEvent?: (event: ScanEvent) => void,
+	signal?: AbortSignal,
+): Promise<ProjectScan[]> => {
+	const projects = await findProjectRoots(cwd, {
+		signal,
+		concurrency: cli.flags.concurrency,
+		maxDepth: cli.flags.maxDepth ?? rootConfig.maxScanDepth,
+	});
+	const projectScans: ProjectScan[] = [];
+	for (const project of projects) {
+		if (signal?.aborted) break;
+		const config = await loadConfig(project.path);
+		const scanOptions = resolveScanOptions(config, argv);
+		// Global caches belong to no project, so a sweep leaves them to a plain
+		// `--cleanup-scope=global` scan.
+		if (scanOptions.cleanupScopes) {
+			scanOptions.cleanupScopes = [...scanOptions.cleanupScopes].filter(
+				scope => scope !== 'global',
+			);
+		}
+		const scanned = await collectItems(
+			project.path,
+			config,
+			scanOptions,
+			onScanEvent,
+			signal,
+		);
+		for (const item of scanned.items) item.projectRoot = project.path;
+		projectScans.push({project, config, ...scanned});
+	}
+
+	return projectScans;
+};
+
+// With `--json` they go to stderr, like skipped mounts, so stdout stays the
+// plain array whatever the symlink policy.
+const outputSkippedSymlinks = (
+	skippedSymlinks: readonly SkippedSymlink[],
+	cwd: string,
+	asJson = false,
+): void => {
+	if (skippedSymlinks.length === 0) return;
+	const stream = asJson ? process.stderr : process.stdout;
+	stream.write(
+		`${asJson ? '' : '\n'}Skipped symlinks (${skippedSymlinks.length}):\n`,
+	);
+	for (const symlink of skippedSymlinks) {
+		stream.write(`  ${formatSkippedSymlink(symlink, cwd)}\n`);
+	}
+};
+
+// Written to stderr, so `--json` output stays parseable.
+const outputSkippedMounts = (
+	skippedMounts: readonly string[],
+	cwd: string,
+): void => {
+	if (skippedMounts.length === 0) return;
+	process.stderr.write(
+		`Skipped mount points on another filesystem (${skippedMounts.length}):\n`,
+	);
+	for (const mountPath of skippedMounts) {
+		process.stderr.write(`  ${path.relative(cwd, mountPath) || '.'}\n`);
+	}
 };
 
 const handleListMode = (
-	items: readonly ScanItem[],
+	{items, skippedSymlinks}: ScannedItems,
 	cwd: string,
 	asJson: boolean,
 ): void => {
 	if (asJson) {
 		process.stdout.write(JSON.stringify(items, null, 2) + '\n');
+		outputSkippedSymlinks(skippedSymlinks, cwd, true);
 		return;
 	}
 
 	outputListResults(items, cwd);
+	outputSkippedSymlinks(skippedSymlinks, cwd);
+};
+
+const handleProjectListMode = (
+	projectScans: readonly ProjectScan[],
+	cwd: string,
+	asJson: boolean,
+): void => {
+	const totals = projectScans.map(projectScan => ({
+		projectScan,
+		totalSize: getTotalSize(projectScan.items),
+	}));
+	totals.sort((left, right) => right.totalSize - left.totalSize);
+
+	if (asJson) {
+		const output = totals.map(({projectScan, totalSize}) => ({
+			...projectScan.project,
+			totalSize,
+			items: projectScan.items,
+		}));
+		process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+		outputSkippedSymlinks(
+			projectScans.flatMap(projectScan => projectScan.skippedSymlinks),
+			cwd,
+			true,
+		);
+		return;
+	}
+
+	let itemCount = 0;
+	let grandTotal = 0;
+	for (const {projectScan, totalSize} of totals) {
+		if (projectScan.items.length === 0) continue;
+		itemCount += projectScan.items.length;
+		grandTotal += totalSize;
+		const projectRel = path.relative(cwd, projectScan.project.path) || '.';
+		process.stdout.write(
+			formatListLine(
+				totalSize,
+				undefined,
+				`📦 ${projectRel} [${projectScan.project.kind}]`,
+			),
+		);
+		outputListRows(projectScan.items, projectScan.project.path, '  ');
+	}
+
+	process.stdout.write(
+		`\nTotal: ${human(grandTotal)} in ${itemCount} items across ${projectScans.length} projects\n`,
+	);
+	outputSkippedSymlinks(
+		projectScans.flatMap(projectScan => projectScan.skippedSymlinks),
+		cwd,
+	);
 };
 
 const handleYesMode = async (
 	items: readonly ScanItem[],
+	cwd: string,
 	dryRun: boolean,
 	apply: boolean,
+	allowTracked: boolean,
 ): Promise<void> => {
 	if (items.length === 0) {
 		process.stdout.write('Nothing to prune.\n');
@@ -200,7 +552,7 @@ const handleYesMode = async (
 	const requiresApply = items.some(item => isApplyProtectedCandidate(item));
 	if (requiresApply && !apply) {
 		process.stderr.write(
-			'Refusing to delete node_modules/pm-caches in non-interactive mode without --apply.\n',
+			'Refusing to delete node_modules/pm-caches, global caches or protected extra artifacts in non-interactive mode without --apply.\n',
 		);
 		process.stderr.write(
 			'Use --apply to proceed, or use --dry-run/--list/--json to preview safely.\n',
@@ -209,6 +561,40 @@ const handleYesMode = async (
 		return;
 	}
 
+	if (!allowTracked) {
+		let trackedFiles: Map<string, string[]>;
+		try {
+			trackedFiles = await findTrackedFilesByRoot(
+				items.map(item => ({path: item.path, root: item.projectRoot ?? cwd})),
+			);
+		} catch (error) {
+			process.stderr.write(
+				`Could not check for git-tracked files: ${String(error instanceof Error ? error.message : error)}\n`,
+			);
+			process.stderr.write(
+				'Use --allow-tracked to delete without the check.\n',
+			);
+			process.exitCode = 1;
+			return;
+		}
+
+		if (trackedFiles.size > 0) {
+			process.stderr.write(
+				'Refusing to delete candidates that contain git-tracked files:\n',
+			);
+			for (const [candidatePath, files] of trackedFiles) {
+				process.stderr.write(
+					`  ${path.relative(cwd, candidatePath) || '.'} (${files.length} tracked)\n`,
+				);
+			}
+			process.stderr.write(
+				'Use --allow-tracked to delete them anyway, or add them to neverDelete.\n',
+			);
+			process.exitCode = 1;
+			return;
+		}
+	}
+
 	const summary = await deleteItems(items);
 	process.stdout.write(
 		`Deleted ${summary.deletedCount}/${items.length} items. Reclaimed ${human(summary.reclaimedBytes)}.\n`,
@@ -225,28 +611,12 @@ const handleYesMode = async (
 	}
 };
 
-const main = async (): Promise<void> => {
-	const argv = process.argv.slice(2);
-	const cwd = cli.flags.cwd ? path.resolve(cli.flags.cwd) : process.cwd();
-	const dryRun = Boolean(cli.flags.dryRun);
-	const forceYes = Boolean(cli.flags.yes);
-	const apply = Boolean(cli.flags.apply);
+// Flags win over `config`, which is the scanned root's own in sweep mode.
+const resolveScanOptions = (
+	config: PruneConfig,
+	argv: readonly string[],
+): ResolvedScanOptions => {
 	const coldStorage = Boolean(cli.flags.coldStorage);
-	const config = await loadConfig(cwd);
-	const maxDepthFlag = cli.flags.maxDepth;
-	if (
-		typeof maxDepthFlag !== 'undefined' &&
-		(typeof maxDepthFlag !== 'number' ||
-			!Number.isFinite(maxDepthFlag) ||
-			!Number.isInteger(maxDepthFlag) ||
-			maxDepthFlag < 0)
-	) {
-		process.stderr.write('--max-depth must be a non-negative integer.\n');
-		process.exitCode = 1;
-		return;
-	}
-	const maxDepth =
-		typeof maxDepthFlag === 'number' ? maxDepthFlag : config.maxScanDepth;
 	const includeNodeModules = argv.includes('--no-node-modules')
 		? false
 		: argv.includes('--node-modules')
@@ -273,7 +643,7 @@ const main = async (): Promise<void> => {
 			: coldStorage
 				? 'cold-storage'
 				: cleanupScopeFromConfig;
-	const scanOptions: ResolvedScanOptions = {
+	return {
 		monorepoMode:
 			cli.flags.monorepo || coldStorage ? 'on' : config.monorepoMode,
 		cleanupScope,
@@ -284,8 +654,65 @@ const main = async (): Promise<void> => {
 			cli.flags.workspaceDetect || coldStorage
 				? 'manifest-fallback'
 				: config.workspaceDiscoveryMode,
-		maxDepth,
+		maxDepth: cli.flags.maxDepth ?? config.maxScanDepth,
+		concurrency: cli.flags.concurrency,
+		symlinks: normalizeSymlinkPolicy(cli.flags.symlinks ?? config.symlinks),
+		cacheDirectory: cli.flags.cache ? resolveCacheDirectory() : undefined,
+		rebuildCache: cli.flags.rebuildCache,
+		oneFileSystem: cli.flags.oneFileSystem,
+		detectors: createConfigDetectors(config.detectors),
+		extraArtifacts: config.extraArtifacts,
+		granularNextCache:
+			Boolean(cli.flags.granularNext) || config.granularNextCache === true,
+		evaluateNextConfig: argv.includes('--no-evaluate-config')
+			? false
+			: argv.includes('--evaluate-config')
+				? true
+				: (config.evaluateNextConfig ?? false),
+		requireGitIgnored: config.requireGitIgnored === true,
 	};
+};
+
+const main = async (): Promise<void> => {
+	const argv = process.argv.slice(2);
+	const cwd = cli.flags.cwd ? path.resolve(cli.flags.cwd) : process.cwd();
+	const dryRun = Boolean(cli.flags.dryRun);
+	const forceYes = Boolean(cli.flags.yes);
+	const apply = Boolean(cli.flags.apply);
+	const sweepProjects = Boolean(cli.flags.projects);
+	const config = await loadConfig(cwd);
+	const maxDepthFlag = cli.flags.maxDepth;
+	if (
+		typeof maxDepthFlag !== 'undefined' &&
+		(typeof maxDepthFlag !== 'number' ||
+			!Number.isFinite(maxDepthFlag) ||
+			!Number.isInteger(maxDepthFlag) ||
+			maxDepthFlag < 0)
+	) {
+		process.stderr.write('--max-depth must be a non-negative integer.\n');
+		process.exitCode = 1;
+		return;
+	}
+	const concurrencyFlag = cli.flags.concurrency;
+	if (
+		typeof concurrencyFlag !== 'undefined' &&
+		(typeof concurrencyFlag !== 'number' ||
+			!Number.isInteger(concurrencyFlag) ||
+			concurrencyFlag < 1)
+	) {
+		process.stderr.write('--concurrency must be a positive integer.\n');
+		process.exitCode = 1;
+		return;
+	}
+	const symlinksFlag = cli.flags.symlinks;
+	if (typeof symlinksFlag === 'string' && !isSymlinkPolicy(symlinksFlag)) {
+		process.stderr.write(
+			'--symlinks must be one of: skip, report, follow-contained.\n',
+		);
+		process.exitCode = 1;
+		return;
+	}
+	const scanOptions = resolveScanOptions(config, argv);
 
 	try {
 		resolveAllowedCandidateTypes(scanOptions);
@@ -297,24 +724,98 @@ const main = async (): Promise<void> => {
 		return;
 	}
 
+	// The spinner shares stdout with the results, so it stays off for JSON and
+	// whenever stdout is not a terminal.
+	const scanProgress =
+		process.stdout.isTTY && !cli.flags.json ? createScanProgress() : undefined;
+	// Ctrl+C during the walk cancels the scan instead of killing the process
+	// mid-read, so nothing below runs on a partial result.
+	const scanController = new AbortController();
+	const onInterrupt = () => {
+		scanController.abort();
+	};
+	process.once('SIGINT', onInterrupt);
+	const skippedMounts: string[] = [];
+	const onScanEvent = (event: ScanEvent) => {
+		scanProgress?.onScanEvent(event);
+		if (event.type === 'mount-skipped') skippedMounts.push(event.path);
+	};
+
 	let scannedItems: ScanItem[] = [];
+	let skippedSymlinks: SkippedSymlink[] = [];
+	let projectScans: ProjectScan[] | undefined;
 	try {
-		scannedItems = await collectItems(cwd, config, scanOptions);
+		if (sweepProjects) {
+			projectScans = await collectProjectScans(
+				cwd,
+				config,
+				argv,
+				onScanEvent,
+				scanController.signal,
+			);
+			scannedItems = projectScans
+				.flatMap(projectScan => projectScan.items)
+				.sort((left, right) => right.size - left.size);
+			skippedSymlinks = projectScans.flatMap(
+				projectScan => projectScan.skippedSymlinks,
+			);
+		} else {
+			({items: scannedItems, skippedSymlinks} = await collectItems(
+				cwd,
+				config,
+				scanOptions,
+				onScanEvent,
+				scanController.signal,
+			));
+		}
+
+		if (scanController.signal.aborted) {
+			scanProgress?.stop('Scan cancelled', 1);
+			process.stderr.write('Scan cancelled\n');
+			process.exitCode = 130;
+			return;
+		}
+
+		const projectCount = projectScans
+			? ` in ${projectScans.length} projects`
+			: '';
+		scanProgress?.stop(
+			`Found ${scannedItems.length} candidates${projectCount} (${human(getTotalSize(scannedItems))})`,
+		);
+		if (cli.flags.verbose) outputSkippedMounts(skippedMounts, cwd);
 	} catch (error) {
+		scanProgress?.stop('Scan failed', 1);
 		process.stderr.write(
 			`Scan failed: ${String(error instanceof Error ? error.message : error)}\n`,
 		);
 		process.exitCode = 1;
 		return;
+	} finally {
+		process.off('SIGINT', onInterrupt);
 	}
 
 	if (cli.flags.list || cli.flags.json) {
-		handleListMode(scannedItems, cwd, Boolean(cli.flags.json));
+		if (projectScans) {
+			handleProjectListMode(projectScans, cwd, Boolean(cli.flags.json));
+		} else {
+			handleListMode(
+				{items: scannedItems, skippedSymlinks},
+				cwd,
+				Boolean(cli.flags.json),
+			);
+		}
+
 		return;
 	}
 
 	if (forceYes) {
-		await handleYesMode(scannedItems, dryRun, apply);
+		await handleYesMode(
+			scannedItems,
+			cwd,
+			dryRun,
+			apply,
+			Boolean(cli.flags.allowTracked),
+		);
 		return;
 	}
 
@@ -324,6 +825,15 @@ const main = async (): Promise<void> => {
 		config,
 		scanOptions,
 		items: scannedItems,
+		skippedSymlinks,
+		...(projectScans
+			? {
+					projects: projectScans.map(projectScan => ({
+						...projectScan.project,
+						config: projectScan.config,
+					})),
+				}
+			: {}),
 	};
 
 	await runInteractiveApp(runtimeProps);
@@ -58,7 +58,9 @@ const walkFiles = async function* (
 	directory: string,
 	fileExtensions: Set<string>,
 	skipDirs: Set<string>,
+	signal?: AbortSignal,
 ): AsyncGenerator<string> {
+	if (signal?.aborted) return;
 	let entries: Dirent[];
 	try {
 		entries = await fs.readdir(directory, {withFileTypes: true});
@@ -70,7 +72,7 @@ const walkFiles = async function* (
 		const absolutePath = path.join(directory, entry.name);
 		if (entry.isDirectory()) {
 			if (skipDirs.has(entry.name)) continue;
-			yield* walkFiles(absolutePath, fileExtensions, skipDirs);
+			yield* walkFiles(absolutePath, fileExtensions, skipDirs, signal);
 			continue;
 		}
 
@@ -95,6 +97,7 @@ const collectSourceFiles = async (
 	cwd: string,
 	sourceDirectories: readonly string[],
 	skipDirs: Set<string>,
+	signal?: AbortSignal,
 ): Promise<string[]> => {
 	const sourceFiles = new Set<string>();
 
@@ -120,6 +123,7 @@ const collectSourceFiles = async (
 			absoluteSourceDirectory,
 			SOURCE_EXTENSIONS,
 			skipDirs,
+			signal,
 		)) {
 			sourceFiles.add(filePath);
 		}
@@ -128,10 +132,16 @@ const collectSourceFiles = async (
 	return [...sourceFiles];
 };
 
+/**
+ * Lists the images under `public/` that no source file mentions. Aborting
+ * `options.signal` returns an empty list: with some sources unread, any asset
+ * could still be in use.
+ */
 export const findUnusedAssets = async (
 	cwd: string,
 	options: AssetScannerOptions = {},
 ): Promise<string[]> => {
+	const {signal} = options;
 	const publicDirectory = path.join(cwd, 'public');
 	if (!(await directoryExists(publicDirectory))) {
 		return [];
@@ -149,6 +159,7 @@ export const findUnusedAssets = async (
 		publicDirectory,
 		IMAGE_EXTENSIONS,
 		skipDirs,
+		signal,
 	)) {
 		assets.push({
 			fullPath: filePath,
@@ -160,7 +171,7 @@ export const findUnusedAssets = async (
 		});
 	}
 
-	if (assets.length === 0) return [];
+	if (assets.length === 0 || signal?.aborted) return [];
 
 	const basenameCounts = new Map<string, number>();
 	for (const asset of assets) {
@@ -177,12 +188,13 @@ export const findUnusedAssets = async (
 		cwd,
 		sourceDirectories,
 		skipDirs,
+		signal,
 	);
 
 	const unresolved = new Set(assets.keys());
 
 	for (const sourceFile of sourceFiles) {
-		if (unresolved.size === 0) break;
+		if (unresolved.size === 0 || signal?.aborted) break;
 
 		let content = '';
 		try {
@@ -209,5 +221,6 @@ export const findUnusedAssets = async (
 		}
 	}
 
+	if (signal?.aborted) return [];
 	return [...unresolved].map(index => assets[index].fullPath);
 };
@@ -1,7 +1,13 @@
 import path from 'node:path';
 import type {CleanupScope, ScanItem} from './types.js';
 
-export type CandidateType = 'artifact' | 'asset' | 'node_modules' | 'pm-cache';
+export type CandidateType =
+	| 'artifact'
+	| 'asset'
+	| 'node_modules'
+	| 'pm-cache'
+	| 'task-cache'
+	| 'test-output';
 
 export interface CandidateFilterOptions {
 	cleanupScope?: string;
@@ -14,6 +20,15 @@ export const ALL_CANDIDATE_TYPES: CandidateType[] = [
 	'asset',
 	'node_modules',
 	'pm-cache',
+	'task-cache',
+	'test-output',
+];
+
+export const SAFE_CANDIDATE_TYPES: CandidateType[] = [
+	'artifact',
+	'asset',
+	'task-cache',
+	'test-output',
 ];
 
 const NODE_MODULES_PATTERN = /(^|\/)node_modules(\/|$)/;
@@ -32,15 +47,22 @@ const CLEANUP_SCOPE_MAP: Record<string, CandidateType[]> = {
 	archive: ALL_CANDIDATE_TYPES,
 	project: ALL_CANDIDATE_TYPES,
 	workspace: ALL_CANDIDATE_TYPES,
-	safe: ['artifact', 'asset'],
-	artifacts: ['artifact', 'asset'],
-	artifact: ['artifact', 'asset'],
+	global: ALL_CANDIDATE_TYPES,
+	safe: SAFE_CANDIDATE_TYPES,
+	artifacts: SAFE_CANDIDATE_TYPES,
+	artifact: SAFE_CANDIDATE_TYPES,
 	'node-modules': ['node_modules'],
 	node_modules: ['node_modules'],
 	nodemodules: ['node_modules'],
 	'pm-caches': ['pm-cache'],
 	pm_caches: ['pm-cache'],
 	pmcaches: ['pm-cache'],
+	'task-caches': ['task-cache'],
+	task_caches: ['task-cache'],
+	taskcaches: ['task-cache'],
+	tests: ['test-output'],
+	'test-outputs': ['test-output'],
+	test_outputs: ['test-output'],
 };
 
 const normalizePathForMatching = (value: string): string =>
@@ -51,7 +73,12 @@ export const resolveCandidateType = (
 ): CandidateType => {
 	if (item.type === 'asset' || item.cleanupType === 'asset') return 'asset';
 	if (item.cleanupType === 'pm-cache') return 'pm-cache';
+	if (item.cleanupType === 'task-cache') return 'task-cache';
+	if (item.cleanupType === 'test-output') return 'test-output';
 	if (item.cleanupType === 'workspace-node-modules') return 'node_modules';
+	// Per-tool caches under `node_modules/.cache` are rebuilt on the next run
+	// without a reinstall, so they do not share the node_modules protection.
+	if (item.cleanupType === 'tool-cache') return 'artifact';
 
 	const normalizedPath = normalizePathForMatching(item.path);
 	if (NODE_MODULES_PATTERN.test(normalizedPath)) return 'node_modules';
@@ -76,7 +103,7 @@ export const parseCleanupScope = (
 		const mappedTypes = CLEANUP_SCOPE_MAP[normalizedToken];
 		if (!mappedTypes) {
 			throw new Error(
-				`Invalid --cleanup-scope value: "${rawToken}". Expected one or more of: all, cold-storage, project, workspace, safe, node-modules, pm-caches`,
+				`Invalid --cleanup-scope value: "${rawToken}". Expected one or more of: all, cold-storage, project, workspace, global, safe, node-modules, pm-caches, task-caches, tests`,
 			);
 		}
 		for (const mappedType of mappedTypes) {
@@ -131,7 +158,13 @@ export const parseScannerCleanupScopes = (
 			resolved.add('workspace');
 			continue;
 		}
-		if (normalizedToken === 'project' || normalizedToken === 'workspace') {
+		// `global` is never implied by `all`: those caches are shared by every
+		// project on the machine.
+		if (
+			normalizedToken === 'project' ||
+			normalizedToken === 'workspace' ||
+			normalizedToken === 'global'
+		) {
 			resolved.add(normalizedToken);
 		}
 	}
@@ -140,8 +173,9 @@ export const parseScannerCleanupScopes = (
 };
 
 export const isApplyProtectedCandidate = (
-	item: Pick<ScanItem, 'path' | 'type' | 'cleanupType'>,
+	item: Pick<ScanItem, 'path' | 'type' | 'cleanupType' | 'protected'>,
 ): boolean => {
+	if (item.protected === true) return true;
 	const candidateType = resolveCandidateType(item);
 	return candidateType === 'node_modules' || candidateType === 'pm-cache';
 };
@@ -1,10 +1,15 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import {createGlobMatcher} from './glob.js';
 import type {
+	ArtifactDetectorConfig,
 	CleanupScope,
+	ExtraArtifactConfig,
+	ExtraArtifactType,
 	MonorepoMode,
 	PruneConfig,
 	ScanItem,
+	SymlinkPolicy,
 	WorkspaceDiscoveryMode,
 } from './types.js';
 
@@ -15,7 +20,23 @@ const WORKSPACE_DISCOVERY_MODES: readonly WorkspaceDiscoveryMode[] = [
 	'manifest-only',
 	'heuristic-only',
 ];
-const CLEANUP_SCOPES: readonly CleanupScope[] = ['project', 'workspace'];
+const CLEANUP_SCOPES: readonly CleanupScope[] = [
+	'project',
+	'workspace',
+	'global',
+];
+const EXTRA_ARTIFACT_TYPES: readonly ExtraArtifactType[] = [
+	'artifact',
+	'pm-cache',
+	'task-cache',
+	'test-output',
+	'tool-cache',
+];
+const SYMLINK_POLICIES: readonly SymlinkPolicy[] = [
+	'skip',
+	'report',
+	'follow-contained',
+];
 
 export const DEFAULT_MONOREPO_MODE: MonorepoMode = 'auto';
 export const DEFAULT_WORKSPACE_DISCOVERY_MODE: WorkspaceDiscoveryMode =
@@ -23,6 +44,7 @@ export const DEFAULT_WORKSPACE_DISCOVERY_MODE: WorkspaceDiscoveryMode =
 export const DEFAULT_CLEANUP_SCOPES: CleanupScope[] = ['project', 'workspace'];
 export const DEFAULT_INCLUDE_NODE_MODULES = true;
 export const DEFAULT_INCLUDE_PROJECT_LOCAL_PM_CACHES = true;
+export const DEFAULT_SYMLINK_POLICY: SymlinkPolicy = 'skip';
 
 export const DEFAULT_CONFIG: PruneConfig = {
 	alwaysDelete: [],
@@ -79,8 +101,16 @@ const normalizePatternList = (value: unknown): string[] => {
 	const unique = new Set<string>();
 	for (const entry of value) {
 		if (typeof entry !== 'string') continue;
-		const normalized = normalizePathPattern(entry);
-		if (normalized) unique.add(normalized);
+		const negated = entry.trim().startsWith('!');
+		const normalized = normalizePathPattern(
+			negated ? entry.trim().slice(1) : entry,
+		);
+		if (!normalized) continue;
+
+		// Order matters once `!` is involved, so a repeat moves to the end.
+		const pattern = negated ? `!${normalized}` : normalized;
+		unique.delete(pattern);
+		unique.add(pattern);
 	}
 
 	return [...unique];
@@ -89,6 +119,9 @@ const normalizePatternList = (value: unknown): string[] => {
 const parseBoolean = (value: unknown, fallback = false): boolean =>
 	typeof value === 'boolean' ? value : fallback;
 
+const parseOptionalBoolean = (value: unknown): boolean | undefined =>
+	typeof value === 'boolean' ? value : undefined;
+
 const parseMonorepoMode = (
 	value: unknown,
 	fallback: MonorepoMode = DEFAULT_MONOREPO_MODE,
@@ -97,6 +130,13 @@ const parseMonorepoMode = (
 		? (value as MonorepoMode)
 		: fallback;
 
+export const isSymlinkPolicy = (value: unknown): value is SymlinkPolicy =>
+	typeof value === 'string' &&
+	SYMLINK_POLICIES.includes(value as SymlinkPolicy);
+
+const parseSymlinkPolicy = (value: unknown): SymlinkPolicy | undefined =>
+	isSymlinkPolicy(value) ? value : undefined;
+
 const parseWorkspaceDiscoveryMode = (
 	value: unknown,
 	fallback: WorkspaceDiscoveryMode = DEFAULT_WORKSPACE_DISCOVERY_MODE,
@@ -118,6 +158,74 @@ const parseMaxDepth = (value: unknown): number | undefined => {
 	return value;
 };
 
+const parseNameList = (value: unknown): string[] => {
+	if (!Array.isArray(value)) return [];
+
+	const unique = new Set<string>();
+	for (const entry of value) {
+		if (typeof entry !== 'string') continue;
+		const name = entry.trim();
+		if (!name || name === '.' || name === '..') continue;
+		if (name.includes('/') || name.includes('\\')) continue;
+		unique.add(name);
+	}
+
+	return [...unique];
+};
+
+const parseDetectorConfigs = (
+	value: unknown,
+): ArtifactDetectorConfig[] | undefined => {
+	if (!Array.isArray(value)) return undefined;
+
+	const detectors: ArtifactDetectorConfig[] = [];
+	for (const entry of value) {
+		if (!isRecord(entry)) continue;
+		const directoryNames = parseNameList(entry.directoryNames);
+		if (directoryNames.length === 0) continue;
+
+		const siblingFiles = parseNameList(entry.siblingFiles);
+		detectors.push({
+			name:
+				typeof entry.name === 'string' && entry.name.trim()
+					? entry.name.trim()
+					: `config:${directoryNames.join(',')}`,
+			directoryNames,
+			...(siblingFiles.length > 0 ? {siblingFiles} : {}),
+		});
+	}
+
+	return detectors.length > 0 ? detectors : undefined;
+};
+
+// Accepts a bare pattern string or `{pattern, type?, scope?, protected?}`.
+const parseExtraArtifacts = (
+	value: unknown,
+): ExtraArtifactConfig[] | undefined => {
+	if (!Array.isArray(value)) return undefined;
+
+	const extraArtifacts: ExtraArtifactConfig[] = [];
+	for (const entry of value) {
+		const raw = typeof entry === 'string' ? {pattern: entry} : entry;
+		if (!isRecord(raw) || typeof raw.pattern !== 'string') continue;
+		if (raw.pattern.trim().startsWith('!')) continue;
+		const pattern = normalizePathPattern(raw.pattern);
+		if (!pattern) continue;
+
+		const {type, scope} = raw;
+		extraArtifacts.push({
+			pattern,
+			...(EXTRA_ARTIFACT_TYPES.includes(type as ExtraArtifactType)
+				? {type: type as ExtraArtifactType}
+				: {}),
+			...(scope === 'project' || scope === 'workspace' ? {scope} : {}),
+			...(raw.protected === true ? {protected: true} : {}),
+		});
+	}
+
+	return extraArtifacts.length > 0 ? extraArtifacts : undefined;
+};
+
 export const normalizeCleanupScopes = (
 	value: unknown,
 	fallback: readonly CleanupScope[] = DEFAULT_CLEANUP_SCOPES,
@@ -139,6 +247,11 @@ export const normalizeMonorepoMode = (
 	fallback: MonorepoMode = DEFAULT_MONOREPO_MODE,
 ): MonorepoMode => parseMonorepoMode(value, fallback);
 
+export const normalizeSymlinkPolicy = (
+	value: unknown,
+	fallback: SymlinkPolicy = DEFAULT_SYMLINK_POLICY,
+): SymlinkPolicy => parseSymlinkPolicy(value) ?? fallback;
+
 export const normalizeWorkspaceDiscoveryMode = (
 	value: unknown,
 	fallback: WorkspaceDiscoveryMode = DEFAULT_WORKSPACE_DISCOVERY_MODE,
@@ -165,6 +278,12 @@ const normalizeConfig = (value: unknown): PruneConfig => {
 			DEFAULT_INCLUDE_PROJECT_LOCAL_PM_CACHES,
 		),
 		maxScanDepth: parseMaxDepth(raw.maxScanDepth),
+		detectors: parseDetectorConfigs(raw.detectors),
+		extraArtifacts: parseExtraArtifacts(raw.extraArtifacts),
+		granularNextCache: parseOptionalBoolean(raw.granularNextCache),
+		evaluateNextConfig: parseOptionalBoolean(raw.evaluateNextConfig),
+		requireGitIgnored: parseOptionalBoolean(raw.requireGitIgnored),
+		symlinks: parseSymlinkPolicy(raw.symlinks),
 	};
 };
 
@@ -190,43 +309,36 @@ export const normalizeRelativePath = (relativePath: string): string => {
 	return normalized ?? '';
 };
 
+/**
+ * Builds the matcher `neverDelete` and `alwaysDelete` share. Patterns are
+ * globs relative to the project (`*`, `?`, `**`, `{a,b}`), a `!` pattern
+ * excludes what earlier ones matched, the last matching pattern wins, and a
+ * match covers everything below it.
+ */
+export const createConfigPatternMatcher = (
+	patterns: Iterable<string>,
+): ((relativePath: string) => boolean) =>
+	createGlobMatcher(normalizePatternList([...patterns]), {
+		matchDescendants: true,
+	});
+
 export const matchesConfigPattern = (
 	relativePath: string,
 	pattern: string,
-): boolean => {
-	const normalizedPattern = normalizeConfigPattern(pattern);
-	if (!normalizedPattern) return false;
-
-	const normalizedRelativePath = normalizeRelativePath(relativePath);
-	return (
-		normalizedRelativePath === normalizedPattern ||
-		normalizedRelativePath.startsWith(`${normalizedPattern}/`)
-	);
-};
+): boolean => createConfigPatternMatcher([pattern])(relativePath);
 
 export const matchesAnyConfigPattern = (
 	relativePath: string,
 	patterns: Iterable<string>,
-): boolean => {
-	for (const pattern of patterns) {
-		if (matchesConfigPattern(relativePath, pattern)) return true;
-	}
-
-	return false;
-};
+): boolean => createConfigPatternMatcher(patterns)(relativePath);
 
 export const filterNeverDelete = <T extends Pick<ScanItem, 'path'>>(
 	items: readonly T[],
 	cwd: string,
 	neverDeletePatterns: Iterable<string>,
 ): T[] => {
-	const normalizedPatterns = normalizePatternList([...neverDeletePatterns]);
-	if (normalizedPatterns.length === 0) return [...items];
-
-	return items.filter(item => {
-		const relativePath = path.relative(cwd, item.path);
-		return !matchesAnyConfigPattern(relativePath, normalizedPatterns);
-	});
+	const isNeverDeleted = createConfigPatternMatcher(neverDeletePatterns);
+	return items.filter(item => !isNeverDeleted(path.relative(cwd, item.path)));
 };
 
 export const selectAlwaysDeletePaths = (
@@ -234,13 +346,10 @@ export const selectAlwaysDeletePaths = (
 	cwd: string,
 	alwaysDeletePatterns: Iterable<string>,
 ): Set<string> => {
-	const normalizedPatterns = normalizePatternList([...alwaysDeletePatterns]);
+	const isAlwaysDeleted = createConfigPatternMatcher(alwaysDeletePatterns);
 	const selected = new Set<string>();
-	if (normalizedPatterns.length === 0) return selected;
-
 	for (const item of items) {
-		const relativePath = path.relative(cwd, item.path);
-		if (matchesAnyConfigPattern(relativePath, normalizedPatterns)) {
+		if (isAlwaysDeleted(path.relative(cwd, item.path))) {
 			selected.add(item.path);
 		}
 	}
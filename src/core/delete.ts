@@ -1,24 +1,68 @@
 import fs from 'node:fs/promises';
+import path from 'node:path';
 import type {DeleteResult, DeleteSummary, ScanItem} from './types.js';
 
 const normalizeSize = (size: unknown): number =>
 	typeof size === 'number' && Number.isFinite(size) && size > 0 ? size : 0;
 
-export const getTotalSize = (
-	items: Iterable<Pick<ScanItem, 'size'>>,
-): number => {
+type SizedItem = Pick<ScanItem, 'size'> &
+	Partial<Pick<ScanItem, 'path' | 'reclaimableSize'>>;
+
+/** Bytes deleting the item frees, or its size when that is unknown. */
+export const toReclaimableSize = (item: SizedItem): number =>
+	normalizeSize(
+		typeof item.reclaimableSize === 'number' ? item.reclaimableSize : item.size,
+	);
+
+const isInsideAnother = (
+	itemPath: string,
+	paths: ReadonlySet<string>,
+): boolean => {
+	let current = path.dirname(itemPath);
+	while (!paths.has(current)) {
+		const parent = path.dirname(current);
+		if (parent === current) return false;
+		current = parent;
+	}
+
+	return true;
+};
+
+/**
+ * Sums what deleting every item frees. Items inside another listed item are
+ * skipped, since deleting the outer one already frees them.
+ */
+export const getTotalSize = (items: Iterable<SizedItem>): number => {
+	const list = [...items];
+	const paths = new Set(
+		list.flatMap(item => (item.path ? [path.resolve(item.path)] : [])),
+	);
 	let total = 0;
-	for (const item of items) {
-		total += normalizeSize(item.size);
+	for (const item of list) {
+		if (item.path && isInsideAnother(path.resolve(item.path), paths)) continue;
+		total += toReclaimableSize(item);
 	}
 
 	return total;
 };
 
+/**
+ * Whether deleting the item frees less than half of its disk usage because
+ * most of its files are hardlinked from elsewhere (a pnpm store, say).
+ */
+export const isMostlyHardLinked = (
+	item: Partial<Pick<ScanItem, 'diskUsage' | 'reclaimableSize'>>,
+): boolean =>
+	typeof item.diskUsage === 'number' &&
+	typeof item.reclaimableSize === 'number' &&
+	item.diskUsage > 0 &&
+	item.reclaimableSize < item.diskUsage / 2;
+
 export const deleteItem = async (
-	item: Pick<ScanItem, 'path' | 'size'>,
+	item: Pick<ScanItem, 'path' | 'size'> &
+		Partial<Pick<ScanItem, 'reclaimableSize'>>,
 ): Promise<DeleteResult> => {
-	const itemSize = normalizeSize(item.size);
+	const itemSize = toReclaimableSize(item);
 
 	try {
 		await fs.rm(item.path, {recursive: true, force: true});
@@ -48,8 +92,18 @@ export const summarizeDeletionResults = (
 };
 
 export const deleteItems = async (
-	items: readonly Pick<ScanItem, 'path' | 'size'>[],
+	items: ReadonlyArray<
+		Pick<ScanItem, 'path' | 'size'> & Partial<Pick<ScanItem, 'reclaimableSize'>>
+	>,
 ): Promise<DeleteSummary> => {
-	const results = await Promise.all(items.map(async item => deleteItem(item)));
+	// Deleting an outer item frees a nested one too; count it only once.
+	const paths = new Set(items.map(item => path.resolve(item.path)));
+	const results = await Promise.all(
+		items.map(async item =>
+			isInsideAnother(path.resolve(item.path), paths)
+				? {...(await deleteItem(item)), size: 0}
+				: deleteItem(item),
+		),
+	);
 	return summarizeDeletionResults(results);
 };
@@ -0,0 +1,441 @@
+import type {Dirent} from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {
+	ArtifactDetector,
+	ArtifactDetectorConfig,
+	ArtifactDetectorContext,
+	ArtifactDetectorMatch,
+	ArtifactDetectorResult,
+	CleanupType,
+	DeployAdapter,
+	Framework,
+} from './types.js';
+
+const NEXT_ARTIFACT_NAMES = new Set(['.next', 'out']);
+const TURBO_ARTIFACT_NAMES = new Set(['.turbo']);
+const DEPLOY_ADAPTER_ARTIFACT_NAMES = new Set([
+	'.vercel_build_output',
+	'.open-next',
+]);
+const TEST_OUTPUT_NAMES = new Set(['coverage']);
+const GENERIC_ARTIFACT_NAMES = new Set([
+	'.swc',
+	'.docusaurus',
+	'storybook-static',
+]);
+
+export const ARTIFACT_NAMES = new Set([
+	...NEXT_ARTIFACT_NAMES,
+	...TURBO_ARTIFACT_NAMES,
+	...DEPLOY_ADAPTER_ARTIFACT_NAMES,
+	...TEST_OUTPUT_NAMES,
+	...GENERIC_ARTIFACT_NAMES,
+]);
+
+interface DeployAdapterOutputs {
+	deployAdapter: DeployAdapter;
+	/** Regenerable children to offer; `null` offers the directory itself. */
+	outputs: ReadonlyArray<readonly string[]> | null;
+}
+
+// Adapter folders mix build output with files that link the checkout to a
+// deployed site (`.vercel/project.json`, `.netlify/state.json`), so only the
+// listed children are ever offered.
+const DEPLOY_ADAPTER_OUTPUTS: Record<string, DeployAdapterOutputs> = {
+	'.vercel_build_output': {deployAdapter: 'vercel', outputs: null},
+	'.vercel': {deployAdapter: 'vercel', outputs: [['output'], ['cache']]},
+	'.open-next': {deployAdapter: 'open-next', outputs: null},
+	'.netlify': {
+		deployAdapter: 'netlify',
+		outputs: [
+			['functions'],
+			['functions-internal'],
+			['functions-serve'],
+			['edge-functions'],
+			['edge-functions-dist'],
+			['edge-functions-serve'],
+			['blobs'],
+			['blobs-serve'],
+			['plugins'],
+			['cache'],
+			['static'],
+			['.next'],
+		],
+	},
+	'.wrangler': {deployAdapter: 'cloudflare', outputs: [['state'], ['tmp']]},
+};
+
+interface FrameworkOutputs {
+	framework: Framework;
+	/**
+	 * Packages that confirm the framework in the nearest `package.json`; when
+	 * set, a name that other tools also use (`build`, `.output`) only counts
+	 * for projects that depend on one of them.
+	 */
+	confirmedBy?: readonly string[];
+	/** Children to offer; `null` offers the directory itself. */
+	outputs: ReadonlyArray<readonly string[]> | null;
+}
+
+const REMIX_PACKAGES = ['@remix-run/dev', '@remix-run/react'];
+
+const FRAMEWORK_OUTPUTS: Record<string, readonly FrameworkOutputs[]> = {
+	'.nuxt': [{framework: 'nuxt', outputs: null}],
+	'.output': [
+		{framework: 'nuxt', confirmedBy: ['nuxt', 'nuxt3'], outputs: null},
+	],
+	'.svelte-kit': [{framework: 'sveltekit', outputs: null}],
+	'.astro': [{framework: 'astro', outputs: null}],
+	build: [{framework: 'remix', confirmedBy: REMIX_PACKAGES, outputs: null}],
+	public: [
+		{framework: 'remix', confirmedBy: REMIX_PACKAGES, outputs: [['build']]},
+	],
+	'.expo': [{framework: 'expo', outputs: null}],
+	'.angular': [{framework: 'angular', outputs: [['cache']]}],
+	'.parcel-cache': [{framework: 'parcel', outputs: null}],
+};
+
+interface TestRunnerOutputs {
+	configPattern: RegExp;
+	/** Directory entry to match, and the outputs below it to offer. */
+	outputs: Record<string, ReadonlyArray<readonly string[]>>;
+}
+
+// Names like `test-results` are common enough that they only count as runner
+// output when that runner's config file sits in the same directory.
+const TEST_RUNNER_OUTPUTS: readonly TestRunnerOutputs[] = [
+	{
+		configPattern: /^playwright(?:-ct)?\.config\.[cm]?[jt]s$/,
+		outputs: {
+			'playwright-report': [[]],
+			'test-results': [[]],
+			'blob-report': [[]],
+		},
+	},
+	{
+		configPattern: /^cypress(?:\.config\.[cm]?[jt]s|\.json)$/,
+		outputs: {cypress: [['videos'], ['screenshots']]},
+	},
+	{
+		configPattern: /^jest\.config\.(?:[cm]?[jt]s|json)$/,
+		outputs: {'.jest-cache': [[]]},
+	},
+	{
+		configPattern: /^vitest\.(?:config|workspace)\.[cm]?[jt]s$/,
+		outputs: {node_modules: [['.vitest'], ['.vite', 'vitest']]},
+	},
+];
+
+interface NextBuildEntry {
+	segments: readonly string[];
+	cleanupType: CleanupType;
+}
+
+// Everything else under `.next` (server bundles, static chunks, manifests) is
+// what `next start` serves, so granular mode leaves it in place.
+const NEXT_GRANULAR_ENTRIES: readonly NextBuildEntry[] = [
+	{segments: ['cache', 'webpack'], cleanupType: 'next-cache'},
+	{segments: ['cache', 'images'], cleanupType: 'next-cache'},
+	{segments: ['cache', 'fetch-cache'], cleanupType: 'next-cache'},
+	{segments: ['cache', 'swc'], cleanupType: 'next-cache'},
+	{segments: ['standalone'], cleanupType: 'next-standalone'},
+	{segments: ['trace'], cleanupType: 'next-trace'},
+];
+
+const pathExists = async (targetPath: string): Promise<boolean> => {
+	try {
+		await fs.lstat(targetPath);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+const existingPaths = async (
+	candidatePaths: readonly string[],
+): Promise<string[]> => {
+	const exists = await Promise.all(
+		candidatePaths.map(async candidatePath => pathExists(candidatePath)),
+	);
+	return candidatePaths.filter((_candidatePath, index) => exists[index]);
+};
+
+export const findNextBuildCandidates = async (
+	buildPath: string,
+): Promise<ArtifactDetectorMatch[]> => {
+	const candidates = await Promise.all(
+		NEXT_GRANULAR_ENTRIES.map(async ({segments, cleanupType}) => {
+			const candidatePath = path.join(buildPath, ...segments);
+			if (!(await pathExists(candidatePath))) return null;
+			return {path: candidatePath, cleanupType, parentPath: buildPath};
+		}),
+	);
+
+	return candidates.filter(
+		(candidate): candidate is NonNullable<typeof candidate> =>
+			Boolean(candidate),
+	);
+};
+
+const isDirectoryAt = async (targetPath: string): Promise<boolean> => {
+	try {
+		const stat = await fs.stat(targetPath);
+		return stat.isDirectory();
+	} catch {
+		return false;
+	}
+};
+
+const hasSiblingFiles = (
+	context: ArtifactDetectorContext,
+	siblingFiles: readonly string[],
+): boolean =>
+	siblingFiles.every(siblingFile =>
+		context.siblings.some(
+			sibling => sibling.name === siblingFile && !sibling.isDirectory(),
+		),
+	);
+
+export const createDirectoryNameDetector = ({
+	name,
+	directoryNames,
+	siblingFiles = [],
+}: ArtifactDetectorConfig): ArtifactDetector => {
+	const names = new Set(directoryNames);
+
+	return {
+		name,
+		detect(context) {
+			if (!names.has(context.entry.name)) return null;
+			if (!hasSiblingFiles(context, siblingFiles)) return null;
+			return {};
+		},
+	};
+};
+
+export const nextBuildDetector: ArtifactDetector = {
+	name: 'next',
+	async detect(context) {
+		if (!NEXT_ARTIFACT_NAMES.has(context.entry.name)) return null;
+		if (context.entry.name === '.next' && context.granularNextCache) {
+			return findNextBuildCandidates(context.path);
+		}
+
+		return {};
+	},
+};
+
+export const turboCacheDetector: ArtifactDetector = {
+	name: 'turbo',
+	detect(context) {
+		if (!TURBO_ARTIFACT_NAMES.has(context.entry.name)) return null;
+		return {cleanupType: 'task-cache'};
+	},
+};
+
+export const deployAdapterDetector: ArtifactDetector = {
+	name: 'deploy-adapter',
+	async detect(context) {
+		if (!Object.hasOwn(DEPLOY_ADAPTER_OUTPUTS, context.entry.name)) {
+			return null;
+		}
+
+		const {deployAdapter, outputs} = DEPLOY_ADAPTER_OUTPUTS[context.entry.name];
+		if (!outputs) return {deployAdapter};
+
+		const outputPaths = outputs.map(segments =>
+			path.join(context.path, ...segments),
+		);
+		const isDirectory = await Promise.all(
+			outputPaths.map(async outputPath => isDirectoryAt(outputPath)),
+		);
+		return outputPaths
+			.filter((_outputPath, index) => isDirectory[index])
+			.map(outputPath => ({path: outputPath, deployAdapter}));
+	},
+};
+
+export const testOutputDetector: ArtifactDetector = {
+	name: 'test-output',
+	async detect(context) {
+		if (TEST_OUTPUT_NAMES.has(context.entry.name)) {
+			return {cleanupType: 'test-output'};
+		}
+
+		const outputSegments = TEST_RUNNER_OUTPUTS.filter(
+			runner =>
+				Object.hasOwn(runner.outputs, context.entry.name) &&
+				context.siblings.some(
+					sibling =>
+						!sibling.isDirectory() && runner.configPattern.test(sibling.name),
+				),
+		).flatMap(runner => runner.outputs[context.entry.name]);
+		if (outputSegments.length === 0) return null;
+
+		const outputs = await existingPaths(
+			outputSegments.map(segments => path.join(context.path, ...segments)),
+		);
+		if (outputs.length === 0) return null;
+
+		return outputs.map(output => ({
+			path: output,
+			cleanupType: 'test-output' as const,
+		}));
+	},
+};
+
+const isFrameworkConfirmed = async (
+	context: ArtifactDetectorContext,
+	{confirmedBy}: FrameworkOutputs,
+): Promise<boolean> => {
+	if (!confirmedBy) return true;
+	const manifest = await context.findNearestManifest(context.directory);
+	return Boolean(
+		manifest &&
+		confirmedBy.some(dependency => manifest.dependencies.has(dependency)),
+	);
+};
+
+// Vitest keeps its results under `.vite/vitest`, which the test-output
+// detector owns; everything else there is Vite's dependency pre-bundle cache.
+const findViteCacheCandidates = async (
+	nodeModulesPath: string,
+): Promise<ArtifactDetectorMatch[]> => {
+	const vitePath = path.join(nodeModulesPath, '.vite');
+	let entries: Dirent[];
+	try {
+		entries = await fs.readdir(vitePath, {withFileTypes: true});
+	} catch {
+		return [];
+	}
+
+	return entries
+		.filter(entry => entry.isDirectory() && entry.name !== 'vitest')
+		.map(entry => ({
+			path: path.join(vitePath, entry.name),
+			cleanupType: 'tool-cache' as const,
+			parentPath: vitePath,
+			framework: 'vite' as const,
+		}));
+};
+
+export const frameworkDetector: ArtifactDetector = {
+	name: 'framework',
+	async detect(context) {
+		if (context.entry.name === 'node_modules') {
+			const viteCaches = await findViteCacheCandidates(context.path);
+			return viteCaches.length > 0 ? viteCaches : null;
+		}
+
+		if (!Object.hasOwn(FRAMEWORK_OUTPUTS, context.entry.name)) return null;
+
+		const matches: ArtifactDetectorMatch[] = [];
+		for (const frameworkOutputs of FRAMEWORK_OUTPUTS[context.entry.name]) {
+			if (!(await isFrameworkConfirmed(context, frameworkOutputs))) continue;
+
+			const {framework, outputs} = frameworkOutputs;
+			if (!outputs) {
+				matches.push({framework});
+				continue;
+			}
+
+			const outputPaths = await existingPaths(
+				outputs.map(segments => path.join(context.path, ...segments)),
+			);
+			matches.push(
+				...outputPaths.map(outputPath => ({path: outputPath, framework})),
+			);
+		}
+
+		// An unconfirmed `build/` or `public/` is ordinary project content and is
+		// left to the walk; a confirmed one with nothing to offer is still claimed.
+		const isAmbiguous = FRAMEWORK_OUTPUTS[context.entry.name].some(
+			frameworkOutputs => frameworkOutputs.confirmedBy,
+		);
+		if (isAmbiguous && matches.length === 0) return null;
+		return matches;
+	},
+};
+
+export const genericArtifactDetector = createDirectoryNameDetector({
+	name: 'generic',
+	directoryNames: [...GENERIC_ARTIFACT_NAMES],
+});
+
+// Nx keeps its local cache here when `.nx/cache` is not configured; it stays in
+// the task-runner family alongside the other Nx caches.
+const TOOL_CACHE_TYPES: Record<string, CleanupType> = {nx: 'task-cache'};
+// Wrangler keeps the logged-in account binding here, not a rebuildable cache.
+const PRESERVED_TOOL_CACHES = new Set(['wrangler']);
+
+export const findToolCacheCandidates = async (
+	nodeModulesPath: string,
+): Promise<ArtifactDetectorMatch[]> => {
+	const cachePath = path.join(nodeModulesPath, '.cache');
+	let entries: Dirent[];
+	try {
+		entries = await fs.readdir(cachePath, {withFileTypes: true});
+	} catch {
+		return [];
+	}
+
+	return entries
+		.filter(
+			entry => entry.isDirectory() && !PRESERVED_TOOL_CACHES.has(entry.name),
+		)
+		.map(entry => ({
+			path: path.join(cachePath, entry.name),
+			cleanupType: TOOL_CACHE_TYPES[entry.name] ?? 'tool-cache',
+			parentPath: cachePath,
+		}));
+};
+
+export const nodeModulesDetector: ArtifactDetector = {
+	name: 'node_modules',
+	async detect(context) {
+		if (context.entry.name !== 'node_modules') return null;
+
+		// Each `.cache/<tool>` child is offered on its own, even when the
+		// enclosing `node_modules` is not, so it can be reclaimed without the
+		// reinstall that deleting `node_modules` implies.
+		const toolCaches = await findToolCacheCandidates(context.path);
+		if (!context.includeNodeModules) return toolCaches;
+
+		return [
+			{
+				cleanupType:
+					context.scope === 'workspace' ? 'workspace-node-modules' : 'artifact',
+			},
+			...toolCaches,
+		];
+	},
+};
+
+export const BUILTIN_ARTIFACT_DETECTORS: readonly ArtifactDetector[] = [
+	nextBuildDetector,
+	turboCacheDetector,
+	deployAdapterDetector,
+	testOutputDetector,
+	frameworkDetector,
+	genericArtifactDetector,
+	nodeModulesDetector,
+];
+
+export const resolveArtifactDetectors = (
+	extraDetectors: Iterable<ArtifactDetector> = [],
+): ArtifactDetector[] => [...BUILTIN_ARTIFACT_DETECTORS, ...extraDetectors];
+
+export const createConfigDetectors = (
+	configs: readonly ArtifactDetectorConfig[] = [],
+): ArtifactDetector[] =>
+	configs.map(config => createDirectoryNameDetector(config));
+
+export const normalizeDetectorResult = (
+	result: ArtifactDetectorResult,
+): ArtifactDetectorMatch[] | null => {
+	if (!result) return null;
+	return Array.isArray(result)
+		? [...(result as readonly ArtifactDetectorMatch[])]
+		: [result as ArtifactDetectorMatch];
+};
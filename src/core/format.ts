@@ -1,3 +1,7 @@
+import os from 'node:os';
+import path from 'node:path';
+import type {SkippedSymlink} from './types.js';
+
 const FORMAT_UNITS = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
 
 const toValidDate = (value: Date | number | null | undefined): Date | null => {
@@ -50,3 +54,34 @@ export const timeAgo = (
 
 	return `${seconds}s ago`;
 };
+
+const SYMLINK_REASON_LABELS: Record<SkippedSymlink['reason'], string> = {
+	'outside-root': 'target outside the scan root',
+	'not-followed': 'not followed',
+};
+
+export const formatSkippedSymlink = (
+	symlink: SkippedSymlink,
+	cwd: string,
+): string =>
+	`${path.relative(cwd, symlink.path) || '.'} → ${symlink.target} (${SYMLINK_REASON_LABELS[symlink.reason]})`;
+
+/**
+ * `targetPath` relative to `cwd`, or, for a path outside it such as a global
+ * cache, absolute with the home directory shortened to `~`.
+ */
+export const formatDisplayPath = (
+	targetPath: string,
+	cwd: string,
+	homeDirectory = os.homedir(),
+): string => {
+	const relativePath = path.relative(cwd, targetPath);
+	if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+		return relativePath || '.';
+	}
+
+	const homeRelativePath = path.relative(homeDirectory, targetPath);
+	return homeRelativePath.startsWith('..') || path.isAbsolute(homeRelativePath)
+		? targetPath
+		: path.join('~', homeRelativePath);
+};
@@ -0,0 +1,184 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {findRepositoryRoot} from './gitignore.js';
+import {toPosixPath} from './glob.js';
+
+const INDEX_SIGNATURE = 'DIRC';
+const HEADER_SIZE = 12;
+// ctime, mtime, dev, ino, mode, uid, gid, size, object id and flags.
+const ENTRY_FIXED_SIZE = 62;
+const EXTENDED_FLAG = 0x40_00;
+const NAME_LENGTH_MASK = 0x0f_ff;
+
+const readVarint = (
+	buffer: Buffer,
+	offset: number,
+): {value: number; offset: number} => {
+	let cursor = offset;
+	let byte = buffer[cursor++];
+	let value = byte & 0x7f;
+	while (byte & 0x80) {
+		byte = buffer[cursor++];
+		value = ((value + 1) << 7) | (byte & 0x7f);
+	}
+
+	return {value, offset: cursor};
+};
+
+/**
+ * Lists the repository-relative paths recorded in a git index file. Versions
+ * 2 to 4 are supported, including the prefix-compressed paths of version 4.
+ * Extensions after the entries are ignored.
+ */
+export const parseGitIndex = (buffer: Buffer): string[] => {
+	if (
+		buffer.length < HEADER_SIZE ||
+		buffer.toString('latin1', 0, 4) !== INDEX_SIGNATURE
+	) {
+		throw new Error('Invalid git index signature');
+	}
+
+	const version = buffer.readUInt32BE(4);
+	if (version < 2 || version > 4) {
+		throw new Error(`Unsupported git index version ${version}`);
+	}
+
+	const entryCount = buffer.readUInt32BE(8);
+	const paths: string[] = [];
+	let offset = HEADER_SIZE;
+	let previousPath = '';
+
+	for (let index = 0; index < entryCount; index++) {
+		const entryStart = offset;
+		if (entryStart + ENTRY_FIXED_SIZE > buffer.length) {
+			throw new Error('Truncated git index');
+		}
+
+		const flags = buffer.readUInt16BE(entryStart + ENTRY_FIXED_SIZE - 2);
+		offset = entryStart + ENTRY_FIXED_SIZE;
+		if (version >= 3 && flags & EXTENDED_FLAG) offset += 2;
+
+		let entryPath: string;
+		if (version === 4) {
+			const prefix = readVarint(buffer, offset);
+			const nameEnd = buffer.indexOf(0, prefix.offset);
+			if (nameEnd === -1) throw new Error('Truncated git index');
+			entryPath =
+				previousPath.slice(0, previousPath.length - prefix.value) +
+				buffer.toString('utf8', prefix.offset, nameEnd);
+			offset = nameEnd + 1;
+		} else {
+			const nameLength = flags & NAME_LENGTH_MASK;
+			const nameEnd =
+				nameLength < NAME_LENGTH_MASK
+					? offset + nameLength
+					: buffer.indexOf(0, offset);
+			if (nameEnd === -1 || nameEnd > buffer.length) {
+				throw new Error('Truncated git index');
+			}
+
+			entryPath = buffer.toString('utf8', offset, nameEnd);
+			// Entries are NUL-padded to a multiple of eight bytes.
+			const entryLength = nameEnd - entryStart;
+			offset = entryStart + (Math.floor(entryLength / 8) + 1) * 8;
+		}
+
+		paths.push(entryPath);
+		previousPath = entryPath;
+	}
+
+	return paths;
+};
+
+const resolveGitDirectory = async (repositoryRoot: string): Promise<string> => {
+	const dotGit = path.join(repositoryRoot, '.git');
+	const stat = await fs.stat(dotGit);
+	if (stat.isDirectory()) return dotGit;
+
+	// Worktrees and submodules point at their git directory from a `.git` file.
+	const content = await fs.readFile(dotGit, 'utf8');
+	const match = /^gitdir:\s*(.+)$/m.exec(content);
+	if (!match?.[1]) {
+		throw new Error(`Unrecognized .git file in ${repositoryRoot}`);
+	}
+
+	return path.resolve(repositoryRoot, match[1].trim());
+};
+
+export const readGitIndex = async (
+	repositoryRoot: string,
+): Promise<string[]> => {
+	const gitDirectory = await resolveGitDirectory(repositoryRoot);
+	let buffer: Buffer;
+	try {
+		buffer = await fs.readFile(path.join(gitDirectory, 'index'));
+	} catch (error) {
+		// A repository without any staged file has no index yet.
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+		throw error;
+	}
+
+	return parseGitIndex(buffer);
+};
+
+/**
+ * Maps every candidate path that is, or contains, a file tracked by the git
+ * repository around `directory` to those files (absolute paths). Candidates
+ * without tracked files are left out, and the map is empty outside a
+ * repository.
+ */
+export const findTrackedFiles = async (
+	candidatePaths: readonly string[],
+	directory: string,
+): Promise<Map<string, string[]>> => {
+	const trackedByCandidate = new Map<string, string[]>();
+	const repositoryRoot = await findRepositoryRoot(directory);
+	if (!repositoryRoot || candidatePaths.length === 0) return trackedByCandidate;
+
+	const indexPaths = await readGitIndex(repositoryRoot);
+	for (const candidatePath of candidatePaths) {
+		const relativePath = toPosixPath(
+			path.relative(repositoryRoot, path.resolve(candidatePath)),
+		);
+		if (!relativePath || relativePath.startsWith('../')) continue;
+
+		const prefix = `${relativePath}/`;
+		const trackedFiles = indexPaths
+			.filter(
+				indexPath => indexPath === relativePath || indexPath.startsWith(prefix),
+			)
+			.map(indexPath => path.join(repositoryRoot, ...indexPath.split('/')));
+		if (trackedFiles.length > 0) {
+			trackedByCandidate.set(candidatePath, trackedFiles);
+		}
+	}
+
+	return trackedByCandidate;
+};
+
+/**
+ * Runs `findTrackedFiles` once per root, for candidates gathered from projects
+ * that may live in different repositories.
+ */
+export const findTrackedFilesByRoot = async (
+	candidates: ReadonlyArray<{path: string; root: string}>,
+): Promise<Map<string, string[]>> => {
+	const pathsByRoot = new Map<string, string[]>();
+	for (const candidate of candidates) {
+		const paths = pathsByRoot.get(candidate.root) ?? [];
+		paths.push(candidate.path);
+		pathsByRoot.set(candidate.root, paths);
+	}
+
+	const trackedByCandidate = new Map<string, string[]>();
+	for (const [root, paths] of pathsByRoot) {
+		for (const [candidatePath, trackedFiles] of await findTrackedFiles(
+			paths,
+			root,
+		)) {
+			trackedByCandidate.set(candidatePath, trackedFiles);
+		}
+	}
+
+	return trackedByCandidate;
+};
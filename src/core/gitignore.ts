@@ -0,0 +1,210 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {toPosixPath} from './glob.js';
+
+interface IgnoreRule {
+	/** Directory the rule is relative to. */
+	base: string;
+	regex: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+}
+
+export interface GitIgnoreMatcher {
+	repositoryRoot: string;
+	isIgnored: (targetPath: string, isDirectory: boolean) => Promise<boolean>;
+}
+
+const escapeRegexCharacter = (character: string): string =>
+	/[.+^${}()|\\]/.test(character) ? `\\${character}` : character;
+
+/**
+ * Translates one gitignore glob (already stripped of `!`, the trailing `/`
+ * and the leading `/`) into a regex over base-relative posix paths.
+ */
+const globToRegexSource = (glob: string): string => {
+	let source = '';
+	let index = 0;
+	while (index < glob.length) {
+		const character = glob[index];
+
+		if (glob.startsWith('**/', index)) {
+			source += '(?:.*/)?';
+			index += 3;
+			continue;
+		}
+
+		if (glob.startsWith('/**', index) && index + 3 === glob.length) {
+			source += '/.*';
+			index += 3;
+			continue;
+		}
+
+		if (glob.startsWith('**', index) && index + 2 === glob.length) {
+			source += '.*';
+			index += 2;
+			continue;
+		}
+
+		if (character === '*') {
+			source += '[^/]*';
+		} else if (character === '?') {
+			source += '[^/]';
+		} else if (character === '\\' && index + 1 < glob.length) {
+			index++;
+			source += escapeRegexCharacter(glob[index]);
+		} else if (character === '[') {
+			const end = glob.indexOf(']', index + 2);
+			if (end === -1) {
+				source += '\\[';
+			} else {
+				const body = glob.slice(index + 1, end).replace(/^!/, '^');
+				source += `[${body.replaceAll('\\', '\\\\')}]`;
+				index = end;
+			}
+		} else {
+			source += escapeRegexCharacter(character);
+		}
+
+		index++;
+	}
+
+	return source;
+};
+
+const parseIgnoreRule = (line: string, base: string): IgnoreRule | null => {
+	let pattern = line.replace(/(?<!\\)\s+$/, '');
+	if (!pattern || pattern.startsWith('#')) return null;
+
+	const negated = pattern.startsWith('!');
+	if (negated) pattern = pattern.slice(1);
+	if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+		pattern = pattern.slice(1);
+	}
+
+	const directoryOnly = pattern.endsWith('/');
+	if (directoryOnly) pattern = pattern.replace(/\/+$/, '');
+	if (!pattern) return null;
+
+	// A slash anywhere but the end anchors the pattern to its ignore file.
+	const anchored = pattern.includes('/');
+	pattern = pattern.replace(/^\/+/, '');
+
+	const source = globToRegexSource(pattern);
+	return {
+		base,
+		regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+		negated,
+		directoryOnly,
+	};
+};
+
+const readIgnoreRules = async (
+	filePath: string,
+	base: string,
+): Promise<IgnoreRule[]> => {
+	try {
+		const content = await fs.readFile(filePath, 'utf8');
+		return content
+			.split(/\r?\n/)
+			.map(line => parseIgnoreRule(line, base))
+			.filter((rule): rule is IgnoreRule => Boolean(rule));
+	} catch {
+		return [];
+	}
+};
+
+const pathExists = async (targetPath: string): Promise<boolean> => {
+	try {
+		await fs.lstat(targetPath);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+export const findRepositoryRoot = async (
+	directory: string,
+): Promise<string | null> => {
+	let current = path.resolve(directory);
+	while (true) {
+		if (await pathExists(path.join(current, '.git'))) return current;
+		const parent = path.dirname(current);
+		if (parent === current) return null;
+		current = parent;
+	}
+};
+
+const matchRules = (
+	rules: readonly IgnoreRule[],
+	targetPath: string,
+	isDirectory: boolean,
+): boolean | undefined => {
+	let ignored: boolean | undefined;
+	for (const rule of rules) {
+		if (rule.directoryOnly && !isDirectory) continue;
+		const relativePath = toPosixPath(path.relative(rule.base, targetPath));
+		if (rule.regex.test(relativePath)) ignored = !rule.negated;
+	}
+
+	return ignored;
+};
+
+/**
+ * Builds a matcher for the repository that contains `directory`, following
+ * `.git/info/exclude` and every `.gitignore` between the repository root and
+ * the path being checked. Ignore files are read once, on first use. Returns
+ * `null` outside a git repository.
+ */
+export const createGitIgnoreMatcher = async (
+	directory: string,
+): Promise<GitIgnoreMatcher | null> => {
+	const repositoryRoot = await findRepositoryRoot(directory);
+	if (!repositoryRoot) return null;
+
+	const excludeRules = await readIgnoreRules(
+		path.join(repositoryRoot, '.git', 'info', 'exclude'),
+		repositoryRoot,
+	);
+	const rulesByDirectory = new Map<string, Promise<IgnoreRule[]>>();
+	const loadDirectoryRules = async (
+		ruleDirectory: string,
+	): Promise<IgnoreRule[]> => {
+		let rules = rulesByDirectory.get(ruleDirectory);
+		if (!rules) {
+			rules = readIgnoreRules(
+				path.join(ruleDirectory, '.gitignore'),
+				ruleDirectory,
+			);
+			rulesByDirectory.set(ruleDirectory, rules);
+		}
+
+		return rules;
+	};
+
+	const isIgnored = async (
+		targetPath: string,
+		isDirectory: boolean,
+	): Promise<boolean> => {
+		const relativePath = path.relative(repositoryRoot, targetPath);
+		if (!relativePath || relativePath.startsWith('..')) return false;
+
+		// Git never looks inside an ignored directory, so the first ignored
+		// ancestor settles it; deeper `!` rules cannot re-include anything.
+		const segments = relativePath.split(path.sep);
+		const rules = [...excludeRules];
+		let current = repositoryRoot;
+		for (const [index, segment] of segments.entries()) {
+			rules.push(...(await loadDirectoryRules(current)));
+			current = path.join(current, segment);
+			const isLast = index === segments.length - 1;
+			if (matchRules(rules, current, isLast ? isDirectory : true)) {
+				return true;
+			}
+		}
+
+		return false;
+	};
+
+	return {repositoryRoot, isIgnored};
+};
@@ -0,0 +1,305 @@
+import fs from 'node:fs/promises';
+import type {Dirent} from 'node:fs';
+import path from 'node:path';
+
+// Wildcards never descend into these; literal segments still can.
+const GLOB_WALK_SKIP_DIRS = new Set(['.git', 'node_modules']);
+
+export const toPosixPath = (value: string): string =>
+	value.replaceAll('\\', '/');
+
+/**
+ * Normalizes a relative glob (workspace patterns, task outputs) to a clean
+ * posix form, keeping a leading `!`. Patterns that are empty, absolute or
+ * escape their base directory resolve to `null`.
+ */
+export const normalizeGlobPattern = (value: string): string | null => {
+	const raw = value.trim();
+	if (!raw) return null;
+
+	const isNegated = raw.startsWith('!');
+	let normalized = isNegated ? raw.slice(1).trim() : raw;
+	if (!normalized) return null;
+
+	normalized = toPosixPath(normalized);
+	normalized = normalized.replace(/^\.\/+/, '');
+	normalized = normalized.replace(/^\/+/, '');
+	normalized = normalized.replace(/\/+/g, '/');
+	normalized = normalized.replace(/\/+$/, '');
+	if (!normalized || normalized === '.') return null;
+
+	normalized = path.posix.normalize(normalized);
+	if (!normalized || normalized === '.') return null;
+
+	if (
+		normalized === '..' ||
+		normalized.startsWith('../') ||
+		normalized.includes('/../') ||
+		/^[A-Za-z]:\//.test(normalized)
+	) {
+		return null;
+	}
+
+	return isNegated ? `!${normalized}` : normalized;
+};
+
+export const isWildcardSegment = (segment: string): boolean =>
+	segment.includes('*') || segment.includes('?');
+
+const escapeRegex = (value: string): string =>
+	value.replaceAll(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const wildcardToRegex = (segment: string): RegExp =>
+	new RegExp(
+		`^${escapeRegex(segment).replaceAll('\\*', '[^/]*').replaceAll('\\?', '[^/]')}$`,
+	);
+
+const segmentMatchesPattern = (
+	segment: string,
+	patternSegment: string,
+): boolean => wildcardToRegex(patternSegment).test(segment);
+
+export const matchPathSegments = (
+	pathSegments: readonly string[],
+	patternSegments: readonly string[],
+	pathIndex = 0,
+	patternIndex = 0,
+): boolean => {
+	if (patternIndex >= patternSegments.length) {
+		return pathIndex >= pathSegments.length;
+	}
+
+	const currentPattern = patternSegments[patternIndex];
+	if (currentPattern === '**') {
+		if (patternIndex === patternSegments.length - 1) return true;
+		for (let index = pathIndex; index <= pathSegments.length; index += 1) {
+			if (
+				matchPathSegments(
+					pathSegments,
+					patternSegments,
+					index,
+					patternIndex + 1,
+				)
+			) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	if (pathIndex >= pathSegments.length) return false;
+	if (!segmentMatchesPattern(pathSegments[pathIndex], currentPattern)) {
+		return false;
+	}
+
+	return matchPathSegments(
+		pathSegments,
+		patternSegments,
+		pathIndex + 1,
+		patternIndex + 1,
+	);
+};
+
+/**
+ * Whether a pattern could still match something strictly below the path,
+ * i.e. the path is a proper prefix of some match.
+ */
+export const matchPathPrefix = (
+	pathSegments: readonly string[],
+	patternSegments: readonly string[],
+): boolean => {
+	for (const [index, pathSegment] of pathSegments.entries()) {
+		const patternSegment = patternSegments[index];
+		if (patternSegment === undefined) return false;
+		if (patternSegment === '**') return true;
+		if (!segmentMatchesPattern(pathSegment, patternSegment)) return false;
+	}
+
+	return patternSegments.length > pathSegments.length;
+};
+
+// Splits a brace body on the commas that are not inside a nested brace.
+const splitBraceBody = (body: string): string[] => {
+	const alternatives: string[] = [];
+	let depth = 0;
+	let start = 0;
+	for (let index = 0; index < body.length; index++) {
+		const character = body[index];
+		if (character === '{') depth++;
+		else if (character === '}') depth--;
+		else if (character === ',' && depth === 0) {
+			alternatives.push(body.slice(start, index));
+			start = index + 1;
+		}
+	}
+
+	alternatives.push(body.slice(start));
+	return alternatives;
+};
+
+/**
+ * Expands `{a,b}` alternatives, nested ones included, into every plain
+ * pattern. A brace without a comma stays literal.
+ */
+export const expandBraces = (pattern: string): string[] => {
+	let depth = 0;
+	let open = -1;
+	for (let index = 0; index < pattern.length; index++) {
+		const character = pattern[index];
+		if (character === '{') {
+			if (depth === 0) open = index;
+			depth++;
+			continue;
+		}
+
+		if (character !== '}' || depth === 0) continue;
+		depth--;
+		if (depth > 0) continue;
+
+		const alternatives = splitBraceBody(pattern.slice(open + 1, index));
+		if (alternatives.length < 2) continue;
+
+		const prefix = pattern.slice(0, open);
+		const suffix = pattern.slice(index + 1);
+		return alternatives.flatMap(alternative =>
+			expandBraces(`${prefix}${alternative}${suffix}`),
+		);
+	}
+
+	return [pattern];
+};
+
+interface GlobRule {
+	segments: string[];
+	negated: boolean;
+}
+
+const compileGlob = (pattern: string): GlobRule[] =>
+	expandBraces(pattern).flatMap(alternative => {
+		const normalized = normalizeGlobPattern(alternative);
+		if (!normalized) return [];
+		const negated = normalized.startsWith('!');
+		return [
+			{
+				segments: (negated ? normalized.slice(1) : normalized).split('/'),
+				negated,
+			},
+		];
+	});
+
+export interface GlobMatcherOptions {
+	/** Also match every path below a match, so `public` covers `public/logo.png`. */
+	matchDescendants?: boolean;
+}
+
+/**
+ * Compiles an ordered list of globs (`*`, `?`, `**` and `{a,b}`) into a
+ * predicate over relative paths. A `!` pattern excludes what earlier patterns
+ * matched and the last pattern that matches decides. Paths outside the base
+ * directory never match.
+ */
+export const createGlobMatcher = (
+	patterns: Iterable<string>,
+	{matchDescendants = false}: GlobMatcherOptions = {},
+): ((relativePath: string) => boolean) => {
+	const rules = [...patterns].flatMap(pattern => compileGlob(pattern));
+
+	const matchesRule = (
+		pathSegments: readonly string[],
+		rule: GlobRule,
+	): boolean => {
+		if (!matchDescendants)
+			return matchPathSegments(pathSegments, rule.segments);
+		for (let length = pathSegments.length; length > 0; length--) {
+			if (matchPathSegments(pathSegments.slice(0, length), rule.segments)) {
+				return true;
+			}
+		}
+
+		return false;
+	};
+
+	return relativePath => {
+		const pathSegments = toPosixPath(relativePath)
+			.split('/')
+			.filter(segment => segment && segment !== '.');
+		if (pathSegments.length === 0 || pathSegments[0] === '..') return false;
+
+		let matched = false;
+		for (const rule of rules) {
+			// Only a rule that would flip the result needs to be tested.
+			if (rule.negated !== matched) continue;
+			if (matchesRule(pathSegments, rule)) matched = !rule.negated;
+		}
+
+		return matched;
+	};
+};
+
+const listEntries = async (directory: string): Promise<Dirent[]> => {
+	try {
+		return await fs.readdir(directory, {withFileTypes: true});
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Finds the existing paths below `baseDirectory` that match a normalized glob
+ * split into segments, each returned as its own list of segments.
+ */
+export const expandGlobSegments = async (
+	baseDirectory: string,
+	segments: readonly string[],
+): Promise<string[][]> => {
+	const results: string[][] = [];
+
+	const walk = async (
+		matchedSegments: string[],
+		segmentIndex: number,
+	): Promise<void> => {
+		if (segmentIndex >= segments.length) {
+			results.push(matchedSegments);
+			return;
+		}
+
+		const directory = path.join(baseDirectory, ...matchedSegments);
+		const currentSegment = segments[segmentIndex];
+		if (currentSegment === '**') {
+			await walk(matchedSegments, segmentIndex + 1);
+			const entries = await listEntries(directory);
+			await Promise.all(
+				entries.map(async entry => {
+					if (!entry.isDirectory()) return;
+					if (GLOB_WALK_SKIP_DIRS.has(entry.name)) return;
+					await walk([...matchedSegments, entry.name], segmentIndex);
+				}),
+			);
+			return;
+		}
+
+		if (isWildcardSegment(currentSegment)) {
+			const matcher = wildcardToRegex(currentSegment);
+			const entries = await listEntries(directory);
+			await Promise.all(
+				entries.map(async entry => {
+					if (GLOB_WALK_SKIP_DIRS.has(entry.name)) return;
+					if (!matcher.test(entry.name)) return;
+					await walk([...matchedSegments, entry.name], segmentIndex + 1);
+				}),
+			);
+			return;
+		}
+
+		try {
+			await fs.lstat(path.join(directory, currentSegment));
+		} catch {
+			return;
+		}
+
+		await walk([...matchedSegments, currentSegment], segmentIndex + 1);
+	};
+
+	await walk([], 0);
+	return results;
+};
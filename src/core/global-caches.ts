@@ -0,0 +1,90 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+import type {CleanupType} from './types.js';
+
+export interface GlobalCacheLocation {
+	path: string;
+	cleanupType: Extract<CleanupType, 'pm-cache' | 'tool-cache'>;
+	/** Tool that owns the cache, e.g. `npm` or `playwright`. */
+	tool: string;
+}
+
+/**
+ * Lists where the package managers and toolchains keep their user-level
+ * caches, following the same environment variables they do. Nothing is
+ * checked for existence.
+ */
+export const resolveGlobalCacheLocations = (
+	env: NodeJS.ProcessEnv = process.env,
+	homeDirectory = os.homedir(),
+): GlobalCacheLocation[] => {
+	const cacheHome = env.XDG_CACHE_HOME || path.join(homeDirectory, '.cache');
+	const locations: GlobalCacheLocation[] = [
+		{
+			path: path.join(
+				env.npm_config_cache || path.join(homeDirectory, '.npm'),
+				'_cacache',
+			),
+			cleanupType: 'pm-cache',
+			tool: 'npm',
+		},
+		{
+			path: path.join(
+				env.PNPM_HOME || path.join(homeDirectory, '.local', 'share', 'pnpm'),
+				'store',
+			),
+			cleanupType: 'pm-cache',
+			tool: 'pnpm',
+		},
+		{
+			path: env.YARN_CACHE_FOLDER || path.join(cacheHome, 'yarn'),
+			cleanupType: 'pm-cache',
+			tool: 'yarn',
+		},
+		{
+			path: path.join(homeDirectory, '.bun', 'install', 'cache'),
+			cleanupType: 'pm-cache',
+			tool: 'bun',
+		},
+		{
+			path: path.join(cacheHome, 'next-swc'),
+			cleanupType: 'tool-cache',
+			tool: 'next-swc',
+		},
+		{
+			path: path.join(cacheHome, 'ms-playwright'),
+			cleanupType: 'tool-cache',
+			tool: 'playwright',
+		},
+	];
+	return locations.map(location => ({
+		...location,
+		path: path.resolve(location.path),
+	}));
+};
+
+/**
+ * The global cache locations that exist as real directories. A symlinked cache
+ * is left alone, since deleting through it would reach wherever it points.
+ */
+export const findGlobalCaches = async (
+	env: NodeJS.ProcessEnv = process.env,
+	homeDirectory = os.homedir(),
+): Promise<GlobalCacheLocation[]> => {
+	const locations = await Promise.all(
+		resolveGlobalCacheLocations(env, homeDirectory).map(async location => {
+			try {
+				const stat = await fs.lstat(location.path);
+				return stat.isDirectory() ? location : null;
+			} catch {
+				return null;
+			}
+		}),
+	);
+
+	return locations.filter((location): location is GlobalCacheLocation =>
+		Boolean(location),
+	);
+};
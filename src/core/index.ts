@@ -2,7 +2,18 @@ export * from './types.js';
 export * from './format.js';
 export * from './config.js';
 export * from './scanner.js';
+export * from './scan-index.js';
+export * from './detectors.js';
+export * from './git-index.js';
+export * from './global-caches.js';
+export * from './gitignore.js';
+export * from './manifest.js';
+export * from './next-config.js';
+export * from './node-modules.js';
+export * from './tsconfig.js';
+export * from './turbo.js';
 export * from './workspaces.js';
+export * from './work-queue.js';
 export * from './asset-scanner.js';
 export * from './delete.js';
 export * from './candidates.js';
@@ -0,0 +1,77 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {ManifestResolver, PackageManifest} from './types.js';
+
+const DEPENDENCY_FIELDS = [
+	'dependencies',
+	'devDependencies',
+	'peerDependencies',
+	'optionalDependencies',
+] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+export const readPackageManifest = async (
+	directory: string,
+): Promise<PackageManifest | null> => {
+	let parsed: unknown;
+	try {
+		const content = await fs.readFile(
+			path.join(directory, 'package.json'),
+			'utf8',
+		);
+		parsed = JSON.parse(content) as unknown;
+	} catch {
+		return null;
+	}
+
+	if (!isRecord(parsed)) return null;
+
+	const dependencies = new Set<string>();
+	const dependencyVersions = new Map<string, string>();
+	for (const field of DEPENDENCY_FIELDS) {
+		const value = parsed[field];
+		if (!isRecord(value)) continue;
+		for (const [dependency, version] of Object.entries(value)) {
+			dependencies.add(dependency);
+			if (typeof version === 'string' && !dependencyVersions.has(dependency)) {
+				dependencyVersions.set(dependency, version);
+			}
+		}
+	}
+
+	return {
+		directory,
+		...(typeof parsed.name === 'string' ? {name: parsed.name} : {}),
+		dependencies,
+		dependencyVersions,
+	};
+};
+
+/**
+ * Returns a lookup for the `package.json` closest to a directory (itself or
+ * its nearest ancestor). Every directory on the way up is memoized, so the
+ * sibling folders of one package share a single read.
+ */
+export const createManifestResolver = (): ManifestResolver => {
+	const cache = new Map<string, Promise<PackageManifest | null>>();
+
+	const resolve: ManifestResolver = async directory => {
+		const resolvedDirectory = path.resolve(directory);
+		const cached = cache.get(resolvedDirectory);
+		if (cached) return cached;
+
+		const pending = (async () => {
+			const manifest = await readPackageManifest(resolvedDirectory);
+			if (manifest) return manifest;
+
+			const parent = path.dirname(resolvedDirectory);
+			return parent === resolvedDirectory ? null : resolve(parent);
+		})();
+		cache.set(resolvedDirectory, pending);
+		return pending;
+	};
+
+	return resolve;
+};
@@ -0,0 +1,274 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+import vm from 'node:vm';
+import {NEXT_PHASES, toConfigEnv} from './next-config.js';
+
+// Covers the synchronous part of the config; the parent process kills this one
+// if an awaited part never settles.
+const SCRIPT_TIMEOUT_MS = 1000;
+
+/**
+ * Runs inside the context, next to the config. It stubs `next` and every other
+ * import, then stores the config's `distDir` per phase as a JSON string in
+ * `__state`. Everything the config can reach is created in the context itself,
+ * so no host object (and no host `Function`) is reachable from it.
+ */
+const SANDBOX_PRELUDE = String.raw`
+const __passthroughValue = Symbol('next-prune.passthrough');
+const __isRecord = value =>
+	Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+const __createPassthrough = carried => {
+	const passthrough = new Proxy(() => undefined, {
+		apply(_target, _thisArgument, argumentsList) {
+			const config =
+				argumentsList.find(argument => __isRecord(argument)) ??
+				argumentsList.find(argument => typeof argument === 'function');
+			return __createPassthrough(config ?? carried);
+		},
+		get(_target, key) {
+			if (key === __passthroughValue) return carried;
+			if (key === 'default') return passthrough;
+			if (typeof key === 'symbol' || key === 'then') return undefined;
+			return __createPassthrough(carried);
+		},
+	});
+	return passthrough;
+};
+const __unwrapPassthrough = value => {
+	let current = value;
+	while (
+		typeof current === 'function' &&
+		current[__passthroughValue] !== undefined
+	) {
+		current = current[__passthroughValue];
+	}
+	return current;
+};
+const __normalizePath = value => {
+	const absolute = value.startsWith('/');
+	const segments = [];
+	for (const segment of value.split('/')) {
+		if (!segment || segment === '.') continue;
+		if (segment === '..' && segments.length > 0 && segments.at(-1) !== '..') {
+			segments.pop();
+		} else if (segment !== '..' || !absolute) {
+			segments.push(segment);
+		}
+	}
+	const joined = segments.join('/');
+	return absolute ? '/' + joined : joined || '.';
+};
+const __path = {
+	sep: '/',
+	join: (...parts) => __normalizePath(parts.filter(Boolean).join('/')),
+	resolve: (...parts) => {
+		let resolved = __input.directory;
+		for (const part of parts) {
+			resolved = part.startsWith('/') ? part : resolved + '/' + part;
+		}
+		return __normalizePath(resolved);
+	},
+	dirname: value => __normalizePath(value + '/..'),
+	basename: value => value.split('/').filter(Boolean).at(-1) ?? '',
+	isAbsolute: value => value.startsWith('/'),
+};
+__path.posix = __path;
+const __url = {
+	fileURLToPath: value =>
+		decodeURIComponent(String(value?.href ?? value).replace(/^file:\/\//, '')),
+	pathToFileURL: value => ({href: 'file://' + encodeURI(value)}),
+};
+const process = {
+	env: __input.env,
+	platform: __input.platform,
+	versions: {},
+	cwd: () => __input.directory,
+};
+const console = Object.fromEntries(
+	['log', 'info', 'warn', 'error', 'debug'].map(method => [method, () => {}]),
+);
+const __require = specifier => {
+	const normalized = specifier.replace(/^node:/, '').replace(/\.js$/, '');
+	if (__input.nextConstantModules.includes(normalized)) {
+		return {...__input.phases};
+	}
+	if (normalized === 'path') return __path;
+	if (normalized === 'url') return __url;
+	if (normalized === 'process') return process;
+	return __createPassthrough();
+};
+const require = __require;
+const __importDefault = value =>
+	__isRecord(value) && 'default' in value ? value.default : value;
+const module = {exports: {}};
+const exports = module.exports;
+const __filename = __input.filename;
+const __dirname = __input.directory;
+const __importMetaUrl = __url.pathToFileURL(__input.filename).href;
+`;
+
+const SANDBOX_EPILOGUE = String.raw`
+const __exported = Object.hasOwn(module.exports, 'default')
+	? module.exports.default
+	: module.exports;
+const __phasesByDistDir = {};
+for (const phase of Object.values(__input.phases)) {
+	let config = __unwrapPassthrough(__exported);
+	if (typeof config === 'function') {
+		config = __unwrapPassthrough(await config(phase, {defaultConfig: {}}));
+	}
+	if (!__isRecord(config)) {
+		throw new TypeError('next.config did not produce a config object');
+	}
+	if (typeof config.distDir !== 'string') continue;
+	(__phasesByDistDir[config.distDir] ??= []).push(phase);
+}
+return JSON.stringify(__phasesByDistDir);
+`;
+
+const NEXT_CONSTANT_MODULES = [
+	'next',
+	'next/constants',
+	'next/dist/shared/lib/constants',
+];
+
+const toImportBindings = (clause: string, specifier: string): string => {
+	const source = `__require(${JSON.stringify(specifier)})`;
+	const statements: string[] = [];
+	let rest = clause.trim();
+
+	const defaultMatch = /^([\w$]+)\s*(?:,|$)/.exec(rest);
+	if (defaultMatch?.[1]) {
+		statements.push(`const ${defaultMatch[1]} = __importDefault(${source});`);
+		rest = rest.slice(defaultMatch[0].length).trim();
+	}
+
+	const namespaceMatch = /^\*\s+as\s+([\w$]+)$/.exec(rest);
+	if (namespaceMatch?.[1]) {
+		statements.push(`const ${namespaceMatch[1]} = ${source};`);
+	}
+
+	const namedMatch = /^\{([\s\S]*)\}$/.exec(rest);
+	if (namedMatch) {
+		const bindings = namedMatch[1]
+			.split(',')
+			.map(binding => binding.trim())
+			.filter(Boolean)
+			.map(binding => binding.replace(/\s+as\s+/, ': '));
+		statements.push(`const {${bindings.join(', ')}} = ${source};`);
+	}
+
+	return statements.join(' ');
+};
+
+// Good enough for config files: the transpiler has already normalized every
+// import/export onto one line, and anything this misses fails evaluation and
+// falls back to the distDir pattern.
+const toCommonJs = (source: string): string =>
+	source
+		.replaceAll(
+			/^import\s+([^'"]+?)\s+from\s+(['"])([^'"]+)\2;?$/gm,
+			(_statement, clause: string, _quote, specifier: string) =>
+				toImportBindings(clause, specifier),
+		)
+		.replaceAll(/^import\s+(['"])[^'"]+\1;?$/gm, '')
+		.replaceAll(/^export\s+default\s+/gm, 'module.exports.default = ')
+		.replaceAll(
+			/^export\s*\{([^}]*)\};?$/gm,
+			(_statement, bindings: string) => {
+				const defaultBinding = /([\w$]+)\s+as\s+default\b/.exec(bindings);
+				return defaultBinding?.[1]
+					? `module.exports.default = ${defaultBinding[1]};`
+					: '';
+			},
+		)
+		.replaceAll(/^export\s+\*.*$/gm, '')
+		.replaceAll(/^export\s+(?=(?:const|let|var|function|async|class)\b)/gm, '')
+		.replaceAll('import.meta.url', '__importMetaUrl')
+		.replaceAll('import.meta.dirname', '__dirname')
+		.replaceAll('import.meta.filename', '__filename');
+
+const transpileConfig = (source: string, configPath: string): string => {
+	if (typeof Bun === 'undefined') {
+		throw new TypeError('next.config evaluation requires the Bun runtime');
+	}
+
+	const extension = path.extname(configPath);
+	const loader = extension.endsWith('ts') ? 'ts' : 'js';
+	return new Bun.Transpiler({loader}).transformSync(source);
+};
+
+/**
+ * Evaluates one `next.config.*` and returns its `distDir` phases as JSON. The
+ * context starts from a null-prototype global and only ever receives source
+ * text; results come back as a string read out of it, never as a host callback
+ * the config could call into.
+ */
+export const evaluateInSandbox = async (
+	configPath: string,
+): Promise<string> => {
+	const source = await fs.readFile(configPath, 'utf8');
+	const code = toCommonJs(transpileConfig(source, configPath));
+	const input = {
+		filename: configPath,
+		directory: path.dirname(configPath),
+		env: toConfigEnv(process.env),
+		platform: process.platform,
+		phases: NEXT_PHASES,
+		nextConstantModules: NEXT_CONSTANT_MODULES,
+	};
+	const script = [
+		`const __input = ${JSON.stringify(input)};`,
+		SANDBOX_PRELUDE,
+		'globalThis.__state = {done: false};',
+		'(async () => {',
+		`await (async () => {\n${code}\n})();`,
+		SANDBOX_EPILOGUE,
+		'})().then(',
+		'\tresult => { globalThis.__state = {done: true, result}; },',
+		'\terror => { globalThis.__state = {done: true, error: String(error)}; },',
+		');',
+	].join('\n');
+
+	const context = vm.createContext(Object.create(null));
+	vm.runInContext(script, context, {
+		filename: configPath,
+		timeout: SCRIPT_TIMEOUT_MS,
+	});
+	// The context has no timers, so its work is all microtasks, and those have
+	// run by the next macrotask.
+	await new Promise(resolve => {
+		setImmediate(resolve);
+	});
+
+	const readState = (expression: string): unknown =>
+		vm.runInContext(expression, context, {timeout: SCRIPT_TIMEOUT_MS});
+	if (readState('__state.done') !== true) {
+		throw new Error('next.config did not settle');
+	}
+
+	const error = readState('__state.error');
+	if (typeof error === 'string') throw new Error(error);
+	const result = readState('__state.result');
+	if (typeof result !== 'string') {
+		throw new TypeError('next.config did not produce a result');
+	}
+
+	return result;
+};
+
+if (import.meta.main) {
+	const configPath = process.argv[2];
+	if (!configPath) process.exit(2);
+	evaluateInSandbox(path.resolve(configPath)).then(
+		result => {
+			process.stdout.write(result, () => {
+				process.exit(0);
+			});
+		},
+		() => {
+			process.exit(1);
+		},
+	);
+}
@@ -0,0 +1,138 @@
+import {execFile} from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import process from 'node:process';
+import url from 'node:url';
+import type {NextDistDirInfo} from './types.js';
+
+export const NEXT_CONFIG_FILES = [
+	'next.config.js',
+	'next.config.mjs',
+	'next.config.cjs',
+	'next.config.ts',
+	'next.config.mts',
+	'next.config.cts',
+] as const;
+
+export const NEXT_PHASES = {
+	PHASE_EXPORT: 'phase-export',
+	PHASE_PRODUCTION_BUILD: 'phase-production-build',
+	PHASE_PRODUCTION_SERVER: 'phase-production-server',
+	PHASE_DEVELOPMENT_SERVER: 'phase-development-server',
+	PHASE_TEST: 'phase-test',
+	PHASE_INFO: 'phase-info',
+} as const;
+
+const DIST_DIR_PATTERN = /\bdistDir\s*:\s*(['"`])([^'"`]+)\1/;
+// Bun's startup is part of this; a config that is still running after it is
+// killed, whether it blocks synchronously or after an `await`.
+const EVALUATION_TIMEOUT_MS = 3000;
+const SANDBOX_ENTRY = url.fileURLToPath(
+	new URL('next-config-sandbox.ts', import.meta.url),
+);
+
+// The config is project code, so it only sees these and the `NEXT_*` keys;
+// the rest of the environment holds the scanning user's tokens.
+const CONFIG_ENV_KEYS = new Set(['NODE_ENV', 'PATH']);
+
+/** The part of `env` a `next.config.*` being evaluated gets to read. */
+export const toConfigEnv = (env: NodeJS.ProcessEnv): Record<string, string> =>
+	Object.fromEntries(
+		Object.entries(env).filter(
+			(entry): entry is [string, string] =>
+				entry[1] !== undefined &&
+				(CONFIG_ENV_KEYS.has(entry[0]) || entry[0].startsWith('NEXT_')),
+		),
+	);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const stripJavaScriptComments = (source: string): string =>
+	source.replaceAll(/\/\*[\s\S]*?\*\//g, '').replaceAll(/\/\/.*$/gm, '');
+
+const runSandbox = async (configPath: string): Promise<string> =>
+	new Promise((resolve, reject) => {
+		execFile(
+			process.execPath,
+			[SANDBOX_ENTRY, configPath],
+			{
+				cwd: path.dirname(configPath),
+				env: toConfigEnv(process.env),
+				timeout: EVALUATION_TIMEOUT_MS,
+				killSignal: 'SIGKILL',
+				maxBuffer: 1024 * 1024,
+			},
+			(error, stdout) => {
+				if (error) {
+					reject(
+						error.killed
+							? new Error('next.config evaluation timed out')
+							: error,
+					);
+					return;
+				}
+
+				resolve(stdout);
+			},
+		);
+	});
+
+/**
+ * Evaluates a `next.config.*` module and returns every `distDir` it produces,
+ * keyed by the phases that produce it. The config runs in a child process, in
+ * a VM context with `next` and every other import stubbed out and no host
+ * object inside, and with only `toConfigEnv` of the environment; the process
+ * is killed once `EVALUATION_TIMEOUT_MS` passes.
+ * This still executes project code, so scans only do it when asked to.
+ */
+export const evaluateNextConfigDistDirs = async (
+	configPath: string,
+): Promise<Map<string, string[]>> => {
+	const output: unknown = JSON.parse(await runSandbox(configPath));
+	if (!isRecord(output)) {
+		throw new TypeError('next.config did not produce a config object');
+	}
+
+	const phasesByDistDir = new Map<string, string[]>();
+	for (const [distDir, phases] of Object.entries(output)) {
+		if (!Array.isArray(phases)) continue;
+		phasesByDistDir.set(
+			distDir,
+			phases.filter((phase): phase is string => typeof phase === 'string'),
+		);
+	}
+
+	return phasesByDistDir;
+};
+
+export const matchNextConfigDistDir = async (
+	configPath: string,
+): Promise<string | null> => {
+	const configSource = await fs.readFile(configPath, 'utf8');
+	const match = DIST_DIR_PATTERN.exec(stripJavaScriptComments(configSource));
+	return match?.[2] ?? null;
+};
+
+export const resolveNextConfigDistDirs = async (
+	configPath: string,
+	{evaluate = false}: {evaluate?: boolean} = {},
+): Promise<Array<Omit<NextDistDirInfo, 'configFile'>>> => {
+	if (evaluate) {
+		try {
+			const phasesByDistDir = await evaluateNextConfigDistDirs(configPath);
+			return [...phasesByDistDir].map(([distDir, phases]) => ({
+				distDir,
+				phases,
+				resolvedBy: 'evaluation' as const,
+			}));
+		} catch {}
+	}
+
+	try {
+		const distDir = await matchNextConfigDistDir(configPath);
+		return distDir ? [{distDir, phases: [], resolvedBy: 'pattern'}] : [];
+	} catch {
+		return [];
+	}
+};
@@ -0,0 +1,103 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type {NodeModulesTag, PackageManager} from './types.js';
+
+interface PackageManagerFile {
+	file: string;
+	packageManager: PackageManager;
+}
+
+interface FoundFile extends PackageManagerFile {
+	mtimeMs: number;
+}
+
+// Files a package manager writes into `node_modules` at the end of an install.
+// Bun leaves none, so its installs fall back to the directory mtime.
+const INSTALL_MARKERS: readonly PackageManagerFile[] = [
+	{file: '.modules.yaml', packageManager: 'pnpm'},
+	{file: '.package-lock.json', packageManager: 'npm'},
+	{file: '.yarn-state.yml', packageManager: 'yarn'},
+	{file: '.yarn-integrity', packageManager: 'yarn'},
+];
+
+const LOCKFILES: readonly PackageManagerFile[] = [
+	{file: 'pnpm-lock.yaml', packageManager: 'pnpm'},
+	{file: 'package-lock.json', packageManager: 'npm'},
+	{file: 'npm-shrinkwrap.json', packageManager: 'npm'},
+	{file: 'yarn.lock', packageManager: 'yarn'},
+	{file: 'bun.lock', packageManager: 'bun'},
+	{file: 'bun.lockb', packageManager: 'bun'},
+];
+
+// An install rewrites the lockfile around the time it writes its marker, so
+// only a lockfile changed well after the install makes it stale.
+const INSTALL_GRACE_MS = 60_000;
+
+const statMtime = async (filePath: string): Promise<number | undefined> => {
+	try {
+		return (await fs.stat(filePath)).mtimeMs;
+	} catch {
+		return undefined;
+	}
+};
+
+const findFiles = async (
+	directory: string,
+	files: readonly PackageManagerFile[],
+): Promise<FoundFile[]> => {
+	const found = await Promise.all(
+		files.map(async file => {
+			const mtimeMs = await statMtime(path.join(directory, file.file));
+			return mtimeMs === undefined ? null : {...file, mtimeMs};
+		}),
+	);
+	return found.filter((file): file is FoundFile => Boolean(file));
+};
+
+/**
+ * Compares a `node_modules` directory with the package next to it: `stale`
+ * when the lockfile (or `package.json` without one) changed after the install,
+ * `orphaned` without a `package.json`, and `foreign` when the install marker
+ * belongs to another package manager than the lockfile.
+ */
+export const inspectNodeModules = async (
+	nodeModulesPath: string,
+): Promise<NodeModulesTag[]> => {
+	const packageDirectory = path.dirname(nodeModulesPath);
+	const [markers, lockfiles, manifestMtime, directoryMtime] = await Promise.all(
+		[
+			findFiles(nodeModulesPath, INSTALL_MARKERS),
+			findFiles(packageDirectory, LOCKFILES),
+			statMtime(path.join(packageDirectory, 'package.json')),
+			statMtime(nodeModulesPath),
+		],
+	);
+	// The newest marker tells which package manager installed last.
+	const marker = markers.sort((left, right) => right.mtimeMs - left.mtimeMs)[0];
+	const installedAt = marker?.mtimeMs ?? directoryMtime;
+	const changedAt =
+		lockfiles.length > 0
+			? Math.max(...lockfiles.map(lockfile => lockfile.mtimeMs))
+			: manifestMtime;
+
+	const tags: NodeModulesTag[] = [];
+	if (
+		installedAt !== undefined &&
+		changedAt !== undefined &&
+		changedAt - installedAt > INSTALL_GRACE_MS
+	) {
+		tags.push('stale');
+	}
+	if (manifestMtime === undefined) tags.push('orphaned');
+	if (
+		marker &&
+		lockfiles.length > 0 &&
+		!lockfiles.some(
+			lockfile => lockfile.packageManager === marker.packageManager,
+		)
+	) {
+		tags.push('foreign');
+	}
+
+	return tags;
+};
@@ -0,0 +1,137 @@
+import {createHash} from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import process from 'node:process';
+
+const INDEX_VERSION = 1;
+
+/** What one directory adds to the size of every tree that contains it. */
+export interface DirectoryRecord {
+	/** `mtimeMs` of the directory when it was listed. */
+	mtimeMs: number;
+	/** Newest `mtimeMs` of the directory and its files. */
+	latestMtimeMs: number;
+	apparentSize: number;
+	/** Allocated bytes of the directory itself and its single-link files. */
+	allocatedBytes: number;
+	fileCount: number;
+	/** One `[dev:ino, allocated bytes, nlink]` entry per hardlinked file. */
+	hardLinks: Array<[string, number, number]>;
+	/** Names of the subdirectories. */
+	directories: string[];
+}
+
+export interface ScanIndex {
+	/**
+	 * Returns the record of the directory at `realpath` if its mtime still
+	 * matches, and keeps it for the next save.
+	 */
+	get: (realpath: string, mtimeMs: number) => DirectoryRecord | undefined;
+	set: (realpath: string, record: DirectoryRecord) => void;
+	/**
+	 * Writes the records this scan read or set, dropping the rest. Never
+	 * throws: an index that cannot be written only costs the next scan time.
+	 */
+	save: () => Promise<void>;
+}
+
+export interface ScanIndexOptions {
+	/** Starts from an empty index instead of the one on disk. */
+	rebuild?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isDirectoryRecord = (value: unknown): value is DirectoryRecord =>
+	isRecord(value) &&
+	typeof value.mtimeMs === 'number' &&
+	typeof value.latestMtimeMs === 'number' &&
+	typeof value.apparentSize === 'number' &&
+	typeof value.allocatedBytes === 'number' &&
+	typeof value.fileCount === 'number' &&
+	Array.isArray(value.hardLinks) &&
+	Array.isArray(value.directories);
+
+/** `$XDG_CACHE_HOME/next-prune`, or `~/.cache/next-prune` without it. */
+export const resolveCacheDirectory = (
+	env: NodeJS.ProcessEnv = process.env,
+): string =>
+	path.join(
+		env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'),
+		'next-prune',
+	);
+
+// One file per scan root, so scanning one project never evicts another.
+const getIndexPath = (cacheDirectory: string, rootRealpath: string): string =>
+	path.join(
+		cacheDirectory,
+		`${createHash('sha256').update(rootRealpath).digest('hex').slice(0, 16)}.json`,
+	);
+
+const readRecords = async (
+	indexPath: string,
+	rootRealpath: string,
+): Promise<Map<string, unknown>> => {
+	try {
+		const parsed = JSON.parse(await fs.readFile(indexPath, 'utf8')) as unknown;
+		if (
+			isRecord(parsed) &&
+			parsed.version === INDEX_VERSION &&
+			parsed.root === rootRealpath &&
+			isRecord(parsed.directories)
+		) {
+			return new Map(Object.entries(parsed.directories));
+		}
+	} catch {}
+
+	return new Map();
+};
+
+/**
+ * Loads the scan index of `rootRealpath` from `cacheDirectory`. A missing,
+ * unreadable or outdated index loads empty.
+ */
+export const loadScanIndex = async (
+	cacheDirectory: string,
+	rootRealpath: string,
+	{rebuild = false}: ScanIndexOptions = {},
+): Promise<ScanIndex> => {
+	const indexPath = getIndexPath(cacheDirectory, rootRealpath);
+	const previous = rebuild
+		? new Map<string, unknown>()
+		: await readRecords(indexPath, rootRealpath);
+	const next = new Map<string, DirectoryRecord>();
+
+	return {
+		get(realpath, mtimeMs) {
+			const record = next.get(realpath) ?? previous.get(realpath);
+			if (!isDirectoryRecord(record) || record.mtimeMs !== mtimeMs) {
+				return undefined;
+			}
+
+			next.set(realpath, record);
+			return record;
+		},
+		set(realpath, record) {
+			next.set(realpath, record);
+		},
+		async save() {
+			const content = JSON.stringify({
+				version: INDEX_VERSION,
+				root: rootRealpath,
+				directories: Object.fromEntries(next),
+			});
+			const temporaryPath = `${indexPath}.${process.pid}.tmp`;
+			try {
+				await fs.mkdir(cacheDirectory, {recursive: true});
+				await fs.writeFile(temporaryPath, content);
+				// Renaming keeps a concurrent scan from reading half a file.
+				await fs.rename(temporaryPath, indexPath);
+			} catch {
+				await fs.rm(temporaryPath, {force: true}).catch(() => undefined);
+			}
+		},
+	};
+};
@@ -9,27 +9,51 @@ import {
 	DEFAULT_WORKSPACE_DISCOVERY_MODE,
 	normalizeCleanupScopes,
 	normalizeMonorepoMode,
+	normalizeSymlinkPolicy,
 	normalizeWorkspaceDiscoveryMode,
 } from './config.js';
+import {
+	findNextBuildCandidates,
+	normalizeDetectorResult,
+	resolveArtifactDetectors,
+} from './detectors.js';
+import {createGitIgnoreMatcher} from './gitignore.js';
+import {findGlobalCaches} from './global-caches.js';
+import {
+	expandBraces,
+	expandGlobSegments,
+	normalizeGlobPattern,
+} from './glob.js';
+import {createManifestResolver} from './manifest.js';
+import {NEXT_CONFIG_FILES, resolveNextConfigDistDirs} from './next-config.js';
+import {inspectNodeModules} from './node-modules.js';
+import {
+	loadScanIndex,
+	type DirectoryRecord,
+	type ScanIndex,
+} from './scan-index.js';
+import {
+	createTsconfigOutputsResolver,
+	type TsconfigOutput,
+} from './tsconfig.js';
+import {resolveTurboOutputs} from './turbo.js';
 import type {
+	ArtifactDetector,
+	ArtifactDetectorContext,
+	ArtifactDetectorMatch,
 	ArtifactStats,
 	CleanupScope,
 	CleanupType,
+	DeployAdapter,
+	Framework,
+	NextDistDirInfo,
+	ScanEvent,
 	ScanItem,
 	ScannerOptions,
+	TaskRunner,
 } from './types.js';
-import {discoverWorkspaces} from './workspaces.js';
-
-export const ARTIFACT_NAMES = new Set([
-	'.next',
-	'out',
-	'.turbo',
-	'.vercel_build_output',
-	'coverage',
-	'.swc',
-	'.docusaurus',
-	'storybook-static',
-]);
+import {createWorkQueue, walkTree, type WorkQueue} from './work-queue.js';
+import {detectTaskRunners, discoverWorkspaces} from './workspaces.js';
 
 export const DEFAULT_SCAN_SKIP_DIRS = new Set([
 	'.git',
@@ -37,7 +61,16 @@ export const DEFAULT_SCAN_SKIP_DIRS = new Set([
 	'.hg',
 	'.next',
 	'.turbo',
+	'.nx',
 	'.vercel',
+	'.open-next',
+	'.netlify',
+	'.wrangler',
+	'.nuxt',
+	'.svelte-kit',
+	'.astro',
+	'.expo',
+	'.parcel-cache',
 	'node_modules',
 	'coverage',
 	'.swc',
@@ -45,17 +78,7 @@ export const DEFAULT_SCAN_SKIP_DIRS = new Set([
 	'storybook-static',
 ]);
 
-const NEXT_CONFIG_FILES = [
-	'next.config.js',
-	'next.config.mjs',
-	'next.config.cjs',
-	'next.config.ts',
-	'next.config.mts',
-	'next.config.cts',
-] as const;
-
 const NEXT_CONFIG_FILE_SET = new Set<string>(NEXT_CONFIG_FILES);
-const DIST_DIR_PATTERN = /\bdistDir\s*:\s*(['"`])([^'"`]+)\1/;
 
 const PROJECT_LOCAL_PM_CACHE_PATHS: readonly string[][] = [
 	['.npm'],
@@ -65,8 +88,26 @@ const PROJECT_LOCAL_PM_CACHE_PATHS: readonly string[][] = [
 	['.bun', 'install', 'cache'],
 ];
 
+// Only offered when the matching manifest sits in the scan root, so a stray
+// `common/temp` in an unrelated project is never touched.
+const TASK_RUNNER_CACHE_PATHS: ReadonlyArray<{
+	taskRunner: TaskRunner;
+	segments: readonly string[];
+}> = [
+	{taskRunner: 'nx', segments: ['.nx', 'cache']},
+	{taskRunner: 'nx', segments: ['.nx', 'workspace-data']},
+	{taskRunner: 'nx', segments: ['node_modules', '.cache', 'nx']},
+	{taskRunner: 'rush', segments: ['common', 'temp', 'build-cache']},
+	{taskRunner: 'lerna', segments: ['.lerna-cache']},
+];
+
+export const SCAN_ABORTED_MESSAGE = 'Scan aborted';
+
 const EMPTY_STATS: ArtifactStats = {
 	size: 0,
+	apparentSize: 0,
+	diskUsage: 0,
+	reclaimableSize: 0,
 	mtime: new Date(0),
 	fileCount: 0,
 	isDirectory: false,
@@ -80,6 +121,14 @@ interface ScanRoot {
 interface CandidateMetadata {
 	cleanupScope: CleanupScope;
 	cleanupType: CleanupType;
+	detector?: string;
+	parentPath?: string;
+	nextDistDir?: NextDistDirInfo;
+	taskRunner?: TaskRunner;
+	turboTasks?: string[];
+	deployAdapter?: DeployAdapter;
+	framework?: Framework;
+	protected?: boolean;
 }
 
 interface ContainedPath {
@@ -87,6 +136,11 @@ interface ContainedPath {
 	realpath: string;
 }
 
+type CandidateProjectInfo = Pick<
+	ScanItem,
+	'packageName' | 'nextVersion' | 'buildId' | 'buildTime' | 'workspaceDirectory'
+>;
+
 interface DiscoveredCandidate extends CandidateMetadata {
 	path: string;
 }
@@ -94,8 +148,13 @@ interface DiscoveredCandidate extends CandidateMetadata {
 const toErrorMessage = (error: unknown): string =>
 	String(error instanceof Error ? error.message : error);
 
-const stripJavaScriptComments = (source: string): string =>
-	source.replaceAll(/\/\*[\s\S]*?\*\//g, '').replaceAll(/\/\/.*$/gm, '');
+const mergeTurboTasks = (
+	existing: readonly string[] | undefined,
+	added: readonly string[] | undefined,
+): string[] | undefined =>
+	existing || added
+		? [...new Set([...(existing ?? []), ...(added ?? [])])]
+		: undefined;
 
 const normalizeRelativeDirectory = (value: unknown): string | null => {
 	if (typeof value !== 'string') return null;
@@ -141,31 +200,117 @@ const toContainedPath = async (
 	}
 };
 
-const findCustomDistDir = async (
+// Next.js writes `BUILD_ID` last, so its mtime marks when the build finished.
+const readBuildId = async (
+	buildDirectory: string,
+): Promise<Pick<ScanItem, 'buildId' | 'buildTime'>> => {
+	const buildIdPath = path.join(buildDirectory, 'BUILD_ID');
+	try {
+		const [content, stat] = await Promise.all([
+			fs.readFile(buildIdPath, 'utf8'),
+			fs.stat(buildIdPath),
+		]);
+		const buildId = content.trim();
+		return buildId ? {buildId, buildTime: stat.mtime} : {};
+	} catch {
+		return {};
+	}
+};
+
+const isSymbolicLink = async (targetPath: string): Promise<boolean> => {
+	try {
+		return (await fs.lstat(targetPath)).isSymbolicLink();
+	} catch {
+		return false;
+	}
+};
+
+const isDirectoryTarget = async (targetPath: string): Promise<boolean> => {
+	try {
+		return (await fs.stat(targetPath)).isDirectory();
+	} catch {
+		return false;
+	}
+};
+
+const findCustomDistDirs = async (
 	directory: string,
 	entries: Dirent[],
-): Promise<string | null> => {
+	evaluateConfig: boolean,
+): Promise<Array<{path: string; info: NextDistDirInfo}>> => {
 	const configEntry = entries.find(entry =>
 		NEXT_CONFIG_FILE_SET.has(entry.name),
 	);
-	if (!configEntry) return null;
+	if (!configEntry) return [];
+
+	const configPath = path.join(directory, configEntry.name);
+	const resolved = await resolveNextConfigDistDirs(configPath, {
+		evaluate: evaluateConfig,
+	});
+
+	const distDirs = await Promise.all(
+		resolved.map(async resolution => {
+			const relativeDistDir = normalizeRelativeDirectory(
+				path.isAbsolute(resolution.distDir)
+					? path.relative(directory, resolution.distDir)
+					: resolution.distDir,
+			);
+			if (!relativeDistDir) return null;
 
-	try {
-		const configPath = path.join(directory, configEntry.name);
-		const configSource = await fs.readFile(configPath, 'utf8');
-		const sanitizedSource = stripJavaScriptComments(configSource);
-		const match = DIST_DIR_PATTERN.exec(sanitizedSource);
-		if (!match?.[2]) return null;
-
-		const relativeDistDir = normalizeRelativeDirectory(match[2]);
-		if (!relativeDistDir) return null;
-
-		const fullPath = path.join(directory, ...relativeDistDir.split('/'));
-		const stat = await fs.stat(fullPath);
-		return stat.isDirectory() ? path.resolve(fullPath) : null;
-	} catch {
-		return null;
-	}
+			const fullPath = path.join(directory, ...relativeDistDir.split('/'));
+			try {
+				const stat = await fs.stat(fullPath);
+				if (!stat.isDirectory()) return null;
+			} catch {
+				return null;
+			}
+
+			return {
+				path: path.resolve(fullPath),
+				info: {...resolution, configFile: configPath},
+			};
+		}),
+	);
+
+	return distDirs.filter((distDir): distDir is NonNullable<typeof distDir> =>
+		Boolean(distDir),
+	);
+};
+
+const findTsconfigOutputs = async (
+	directory: string,
+	entries: Dirent[],
+	resolveTsconfigOutputs: (configPath: string) => Promise<TsconfigOutput[]>,
+): Promise<string[]> => {
+	const hasTsconfig = entries.some(
+		entry => entry.name === 'tsconfig.json' && !entry.isDirectory(),
+	);
+	if (!hasTsconfig) return [];
+
+	const outputs = await resolveTsconfigOutputs(
+		path.join(directory, 'tsconfig.json'),
+	);
+	const existingOutputs = await Promise.all(
+		outputs.map(async output => {
+			try {
+				const stat = await fs.stat(output.path);
+				const isExpectedKind =
+					output.kind === 'directory' ? stat.isDirectory() : stat.isFile();
+				return isExpectedKind ? output.path : null;
+			} catch {
+				return null;
+			}
+		}),
+	);
+
+	// A `.tsbuildinfo` written into `outDir` goes away with it.
+	const presentOutputs = existingOutputs.filter((output): output is string =>
+		Boolean(output),
+	);
+	return presentOutputs.filter(
+		output =>
+			!presentOutputs.some(other => output.startsWith(`${other}${path.sep}`)),
+	);
 };
 
 const findProjectLocalPmCacheCandidates = async (
@@ -188,80 +333,415 @@ const findProjectLocalPmCacheCandidates = async (
 	);
 };
 
-const findVercelOutputArtifact = async (
-	vercelPath: string,
-): Promise<string | null> => {
-	const outputPath = path.join(vercelPath, 'output');
+const findTaskRunnerCacheCandidates = async (
+	directory: string,
+): Promise<Array<{path: string; taskRunner: TaskRunner}>> => {
+	const taskRunners = await detectTaskRunners(directory);
+	if (taskRunners.size === 0) return [];
 
-	try {
-		const stat = await fs.stat(outputPath);
-		return stat.isDirectory() ? path.resolve(outputPath) : null;
-	} catch {
-		return null;
-	}
+	const candidates = await Promise.all(
+		TASK_RUNNER_CACHE_PATHS.filter(({taskRunner}) =>
+			taskRunners.has(taskRunner),
+		).map(async ({taskRunner, segments}) => {
+			const candidatePath = path.join(directory, ...segments);
+			try {
+				const stat = await fs.stat(candidatePath);
+				return stat.isDirectory()
+					? {path: path.resolve(candidatePath), taskRunner}
+					: null;
+			} catch {
+				return null;
+			}
+		}),
+	);
+
+	return candidates.filter(
+		(candidate): candidate is NonNullable<typeof candidate> =>
+			Boolean(candidate),
+	);
 };
 
-const collectStats = async (targetPath: string): Promise<ArtifactStats> => {
-	let stat: Stats;
-	try {
-		stat = await fs.lstat(targetPath);
-	} catch (error) {
-		return {...EMPTY_STATS, error: toErrorMessage(error)};
-	}
+const runDetectors = async (
+	detectors: readonly ArtifactDetector[],
+	context: ArtifactDetectorContext,
+): Promise<Array<ArtifactDetectorMatch & {detector: string}> | null> => {
+	let claimed = false;
+	const matches: Array<ArtifactDetectorMatch & {detector: string}> = [];
 
-	if (!stat.isDirectory()) {
-		return {
-			size: stat.size,
-			fileCount: 1,
-			mtime: stat.mtime,
-			isDirectory: false,
-		};
+	for (const detector of detectors) {
+		let detectorMatches: ArtifactDetectorMatch[] | null;
+		try {
+			detectorMatches = normalizeDetectorResult(await detector.detect(context));
+		} catch {
+			continue;
+		}
+
+		if (!detectorMatches) continue;
+		claimed = true;
+		for (const match of detectorMatches) {
+			matches.push({...match, detector: detector.name});
+		}
 	}
 
-	let entries: Dirent[];
-	try {
-		entries = await fs.readdir(targetPath, {withFileTypes: true});
-	} catch (error) {
-		return {
-			size: 0,
-			fileCount: 0,
-			mtime: stat.mtime,
-			isDirectory: true,
-			error: toErrorMessage(error),
-		};
+	return claimed ? matches : null;
+};
+
+interface CollectStatsOptions {
+	signal?: AbortSignal;
+	queue: WorkQueue;
+	/** Reuses the records of directories that have not changed since. */
+	index?: ScanIndex;
+	/** Realpath of the sized path, which index keys are built from. */
+	realpath?: string;
+	/** Device to stay on; directories below the target on another are skipped. */
+	device?: number;
+	onMountSkipped?: (mountPath: string) => void;
+	/**
+	 * Records of trees already sized in this scan, keyed by realpath. A
+	 * directory found here is taken from them instead of being walked again.
+	 */
+	sizedTrees?: ReadonlyMap<string, readonly DirectoryRecord[]>;
+}
+
+/** One path of the sizing walk: `lstat` it and, for a directory, list it. */
+interface StatsNode {
+	path: string;
+	root?: boolean;
+	/** Record of the listed directory this entry belongs to. */
+	parent?: DirectoryRecord;
+}
+
+interface HardLinkUsage {
+	/** Allocated bytes of the file. */
+	bytes: number;
+	nlink: number;
+	/** Links found below the sized path. */
+	links: number;
+}
+
+interface SizedTotals {
+	stats: ArtifactStats;
+	/** Files with more than one link, keyed by `dev:ino`. */
+	hardLinks: Map<string, HardLinkUsage>;
+}
+
+interface SizedArtifact extends SizedTotals {
+	/** Every directory record of the tree, or none if it was not fully read. */
+	records: DirectoryRecord[];
+}
+
+// A listed name is a single segment, so it needs none of the normalization
+// `path.join` does, which otherwise dominates sizing large trees.
+const joinEntry = (directory: string, name: string): string =>
+	directory.endsWith(path.sep)
+		? `${directory}${name}`
+		: `${directory}${path.sep}${name}`;
+
+// Windows reports no block count; fall back to the file length there.
+const toAllocatedBytes = (stat: Stats): number =>
+	Number.isFinite(stat.blocks) ? stat.blocks * 512 : stat.size;
+
+const createDirectoryRecord = (stat: Stats): DirectoryRecord => ({
+	mtimeMs: stat.mtimeMs,
+	latestMtimeMs: stat.mtimeMs,
+	apparentSize: 0,
+	allocatedBytes: toAllocatedBytes(stat),
+	fileCount: 0,
+	hardLinks: [],
+	directories: [],
+});
+
+const addFileToRecord = (record: DirectoryRecord, stat: Stats): void => {
+	record.apparentSize += stat.size;
+	record.fileCount++;
+	record.latestMtimeMs = Math.max(record.latestMtimeMs, stat.mtimeMs);
+	if (stat.nlink <= 1) {
+		record.allocatedBytes += toAllocatedBytes(stat);
+	} else {
+		record.hardLinks.push([
+			`${stat.dev}:${stat.ino}`,
+			toAllocatedBytes(stat),
+			stat.nlink,
+		]);
 	}
+};
+
+/**
+ * Sizes `targetPath` one directory record at a time. With an index, a
+ * directory whose mtime is unchanged is not listed again: its record stands in
+ * for its files, and only its subdirectories are checked.
+ */
+const collectStats = async (
+	targetPath: string,
+	{
+		signal,
+		queue,
+		index,
+		realpath = targetPath,
+		device,
+		onMountSkipped,
+		sizedTrees,
+	}: CollectStatsOptions,
+): Promise<SizedArtifact> => {
+	const records: DirectoryRecord[] = [];
+	// Listed this scan, so the index can take them once they are complete.
+	const listedRecords = new Map<string, DirectoryRecord>();
+	const incompleteRecords = new Set<DirectoryRecord>();
+	let rootStat: Stats | undefined;
+	let rootError: string | undefined;
+	// Paths below the target only differ from their realpath in that prefix,
+	// so index keys are only built for the directories that need one.
+	const toKey = (nodePath: string): string =>
+		`${realpath}${nodePath.slice(targetPath.length)}`;
+
+	await walkTree<StatsNode>(
+		queue,
+		[{path: targetPath, root: true}],
+		async node => {
+			const isRoot = node.root === true;
+			let stat: Stats;
+			try {
+				stat = await fs.lstat(node.path);
+			} catch (error) {
+				if (isRoot) rootError = toErrorMessage(error);
+				if (node.parent) incompleteRecords.add(node.parent);
+				return [];
+			}
+
+			if (isRoot) rootStat = stat;
+			if (
+				!isRoot &&
+				device !== undefined &&
+				stat.isDirectory() &&
+				stat.dev !== device
+			) {
+				onMountSkipped?.(node.path);
+				return [];
+			}
+
+			if (!stat.isDirectory()) {
+				if (node.parent) {
+					addFileToRecord(node.parent, stat);
+				} else {
+					const record = createDirectoryRecord(stat);
+					record.allocatedBytes = 0;
+					addFileToRecord(record, stat);
+					records.push(record);
+				}
+
+				return [];
+			}
+
+			const key = toKey(node.path);
+			const sizedTree = isRoot ? undefined : sizedTrees?.get(key);
+			if (sizedTree) {
+				records.push(...sizedTree);
+				return [];
+			}
+
+			const cached = index?.get(key, stat.mtimeMs);
+			if (cached) {
+				records.push(cached);
+				return cached.directories.map(name => ({
+					path: joinEntry(node.path, name),
+				}));
+			}
+
+			const record = createDirectoryRecord(stat);
+			records.push(record);
+			listedRecords.set(key, record);
+			if (signal?.aborted) {
+				incompleteRecords.add(record);
+				return [];
+			}
+
+			// Listed in the same job as its `lstat`: the two calls run one after
+			// the other, so the job still holds a single slot of the queue.
+			let entries: Dirent[];
+			try {
+				entries = await fs.readdir(node.path, {withFileTypes: true});
+			} catch (error) {
+				// Unreadable subdirectories count as empty, like unreadable files.
+				if (isRoot) rootError = toErrorMessage(error);
+				incompleteRecords.add(record);
+				return [];
+			}
 
-	const nestedStats = await Promise.all(
-		entries.map(async entry => collectStats(path.join(targetPath, entry.name))),
+			for (const entry of entries) {
+				if (entry.isDirectory()) record.directories.push(entry.name);
+			}
+
+			return entries.map(entry => ({
+				path: joinEntry(node.path, entry.name),
+				parent: record,
+			}));
+		},
 	);
 
-	let size = 0;
+	if (index && !signal?.aborted) {
+		for (const [key, record] of listedRecords) {
+			if (!incompleteRecords.has(record)) index.set(key, record);
+		}
+	}
+
+	const hardLinks = new Map<string, HardLinkUsage>();
+	let apparentSize = 0;
+	let singleLinkUsage = 0;
+	let diskUsage = 0;
 	let fileCount = 0;
-	let latestMtime = stat.mtime;
-	for (const nested of nestedStats) {
-		size += nested.size;
-		fileCount += nested.fileCount;
-		if (nested.mtime > latestMtime) {
-			latestMtime = nested.mtime;
+	let latestMtimeMs = 0;
+	for (const record of records) {
+		apparentSize += record.apparentSize;
+		singleLinkUsage += record.allocatedBytes;
+		fileCount += record.fileCount;
+		latestMtimeMs = Math.max(latestMtimeMs, record.latestMtimeMs);
+		for (const [key, bytes, nlink] of record.hardLinks) {
+			const hardLink = hardLinks.get(key);
+			if (hardLink) {
+				hardLink.links++;
+			} else {
+				diskUsage += bytes;
+				hardLinks.set(key, {bytes, nlink, links: 1});
+			}
 		}
 	}
 
+	diskUsage += singleLinkUsage;
+	let reclaimableSize = singleLinkUsage;
+	for (const hardLink of hardLinks.values()) {
+		if (hardLink.links >= hardLink.nlink) reclaimableSize += hardLink.bytes;
+	}
+
+	if (!rootStat) {
+		return {stats: {...EMPTY_STATS, error: rootError}, hardLinks, records: []};
+	}
+
+	// Some subdirectory may have been skipped once the signal fired.
+	const error = signal?.aborted ? SCAN_ABORTED_MESSAGE : rootError;
+	const isComplete = !error && incompleteRecords.size === 0;
 	return {
-		size,
-		fileCount,
-		mtime: latestMtime,
-		isDirectory: true,
+		stats: {
+			size: apparentSize,
+			apparentSize,
+			diskUsage,
+			reclaimableSize,
+			fileCount,
+			mtime: new Date(latestMtimeMs),
+			isDirectory: rootStat.isDirectory(),
+			...(rootStat.isDirectory() && error ? {error} : {}),
+		},
+		hardLinks,
+		records: isComplete ? records : [],
 	};
 };
 
+/**
+ * Adds to each candidate the hardlinked files that no single candidate holds
+ * every link of, but all candidates together do. Each such file goes to the
+ * first top-level candidate (by path) that links it, so totals count it once.
+ * Nested candidates keep their own figure; totals skip them anyway.
+ */
+const resolveSharedHardLinks = (
+	sized: ReadonlyArray<{path: string; nested: boolean} & SizedTotals>,
+): Map<string, number> => {
+	const topLevel = sized
+		.filter(candidate => !candidate.nested)
+		.sort((left, right) => left.path.localeCompare(right.path));
+	const linksByFile = new Map<string, {links: number; owner: string}>();
+	for (const candidate of topLevel) {
+		for (const [key, hardLink] of candidate.hardLinks) {
+			if (hardLink.links >= hardLink.nlink) continue;
+			const shared = linksByFile.get(key);
+			if (shared) {
+				shared.links += hardLink.links;
+			} else {
+				linksByFile.set(key, {links: hardLink.links, owner: candidate.path});
+			}
+		}
+	}
+
+	const extraByPath = new Map<string, number>();
+	for (const candidate of topLevel) {
+		let extra = 0;
+		for (const [key, hardLink] of candidate.hardLinks) {
+			const shared = linksByFile.get(key);
+			if (shared?.owner !== candidate.path) continue;
+			if (shared.links >= hardLink.nlink) extra += hardLink.bytes;
+		}
+
+		if (extra > 0) extraByPath.set(candidate.path, extra);
+	}
+
+	return extraByPath;
+};
+
+/**
+ * Sizes a file or directory tree with at most `concurrency` filesystem calls
+ * in flight. Once `signal` aborts, the walk stops and the partial totals come
+ * back with `error` set to `SCAN_ABORTED_MESSAGE`.
+ */
 export const getArtifactStats = async (
 	targetPath: string,
-): Promise<ArtifactStats> => collectStats(targetPath);
+	{signal, concurrency}: {signal?: AbortSignal; concurrency?: number} = {},
+): Promise<ArtifactStats> => {
+	const {stats} = await collectStats(targetPath, {
+		signal,
+		queue: createWorkQueue(concurrency),
+	});
+	return stats;
+};
 
-export const scanArtifacts = async (
+interface EventQueue<T> {
+	push: (event: T) => void;
+	close: (error?: unknown) => void;
+	drain: () => AsyncGenerator<T>;
+}
+
+const createEventQueue = <T>(): EventQueue<T> => {
+	const buffered: T[] = [];
+	let wake: (() => void) | undefined;
+	let closed = false;
+	let failure: unknown;
+
+	return {
+		push(event) {
+			buffered.push(event);
+			wake?.();
+		},
+		close(error) {
+			closed = true;
+			failure = error;
+			wake?.();
+		},
+		async *drain() {
+			while (true) {
+				if (buffered.length > 0) {
+					yield buffered.shift()!;
+					continue;
+				}
+
+				if (closed) {
+					if (failure !== undefined) throw failure;
+					return;
+				}
+
+				await new Promise<void>(resolve => {
+					wake = resolve;
+				});
+				wake = undefined;
+			}
+		},
+	};
+};
+
+const runScan = async (
 	cwd: string,
-	options: ScannerOptions = {},
-): Promise<ScanItem[]> => {
+	options: ScannerOptions,
+	emit: (event: ScanEvent) => void,
+): Promise<void> => {
+	const {signal} = options;
+	// One queue bounds the walk and the sizing of every candidate together.
+	const queue = createWorkQueue(options.concurrency);
 	const rootDirectory = path.resolve(cwd);
 	const rootRealpath = await fs
 		.realpath(rootDirectory)
@@ -269,6 +749,8 @@ export const scanArtifacts = async (
 	const discoveredArtifacts = new Map<string, DiscoveredCandidate>();
 	const processedDirectories = new Set<string>();
 	const skipPaths = new Set<string>();
+	// Realpaths of directories that hold a candidate without being one.
+	const candidateHolders = new Set<string>();
 	const skipDirs = new Set(DEFAULT_SCAN_SKIP_DIRS);
 
 	const cleanupScopes = normalizeCleanupScopes(
@@ -292,6 +774,12 @@ export const scanArtifacts = async (
 		typeof options.includeProjectLocalPmCaches === 'boolean'
 			? options.includeProjectLocalPmCaches
 			: DEFAULT_INCLUDE_PROJECT_LOCAL_PM_CACHES;
+	const granularNextCache = options.granularNextCache === true;
+	const evaluateNextConfig = options.evaluateNextConfig === true;
+	const symlinks = normalizeSymlinkPolicy(options.symlinks);
+	const detectors = resolveArtifactDetectors(options.detectors);
+	const findNearestManifest = createManifestResolver();
+	const resolveTsconfigOutputs = createTsconfigOutputsResolver();
 	const maxDepth =
 		typeof options.maxDepth === 'number' &&
 		Number.isInteger(options.maxDepth) &&
@@ -312,6 +800,7 @@ export const scanArtifacts = async (
 		const workspaceResult = await discoverWorkspaces(
 			rootDirectory,
 			workspaceDiscoveryMode,
+			{signal},
 		);
 		workspaceDirectories = workspaceResult.workspaceDirectories;
 	}
@@ -334,7 +823,10 @@ export const scanArtifacts = async (
 		);
 	}
 
-	if (scanRoots.length === 0) return [];
+	const globalCaches = cleanupScopeSet.has('global')
+		? await findGlobalCaches()
+		: [];
+	if (scanRoots.length === 0 && globalCaches.length === 0) return;
 
 	const workspaceDirectorySet = new Set(
 		workspaceRoots.map(root => root.realpath),
@@ -342,44 +834,190 @@ export const scanArtifacts = async (
 	const skipWorkspaceSubtreesInProjectScope =
 		workspaceDirectories.length > 0 && cleanupScopeSet.has('workspace');
 
+	const describeProject = async (
+		realpath: string,
+		metadata: DiscoveredCandidate,
+	): Promise<CandidateProjectInfo> => {
+		const buildDirectory = metadata.parentPath ?? metadata.path;
+		const [manifest, build] = await Promise.all([
+			findNearestManifest(path.dirname(buildDirectory)),
+			metadata.detector === 'next' ? readBuildId(buildDirectory) : {},
+		]);
+		const nextVersion = manifest?.dependencyVersions.get('next');
+		// Workspaces can nest, so the deepest one that contains it owns it.
+		const workspace = workspaceRoots
+			.filter(root => isContainedPath(root.realpath, realpath))
+			.sort((left, right) => right.realpath.length - left.realpath.length)[0];
+		return {
+			...(manifest?.name ? {packageName: manifest.name} : {}),
+			...(nextVersion ? {nextVersion} : {}),
+			...build,
+			...(workspace ? {workspaceDirectory: workspace.path} : {}),
+		};
+	};
+
+	// `stat` so a symlinked root stays on the device its content lives on.
+	const rootDevice = options.oneFileSystem
+		? await fs.stat(rootDirectory).then(
+				stat => stat.dev,
+				() => undefined,
+			)
+		: undefined;
+	const reportedMounts = new Set<string>();
+	const reportMount = (mountPath: string): void => {
+		if (reportedMounts.has(mountPath)) return;
+		reportedMounts.add(mountPath);
+		emit({type: 'mount-skipped', path: mountPath});
+	};
+
+	const isOnOtherDevice = async (targetPath: string): Promise<boolean> => {
+		if (rootDevice === undefined) return false;
+		const stat = await fs.stat(targetPath).catch(() => undefined);
+		if (!stat || stat.dev === rootDevice) return false;
+		reportMount(targetPath);
+		return true;
+	};
+
+	const reportedSymlinks = new Set<string>();
+	const reportSymlink = async (symlinkPath: string): Promise<void> => {
+		if (symlinks !== 'report' || reportedSymlinks.has(symlinkPath)) return;
+		if (!(await isSymbolicLink(symlinkPath))) return;
+		reportedSymlinks.add(symlinkPath);
+
+		const target = await fs
+			.realpath(symlinkPath)
+			.catch(async () =>
+				path.resolve(path.dirname(symlinkPath), await fs.readlink(symlinkPath)),
+			)
+			.catch(() => symlinkPath);
+		emit({
+			type: 'symlink-skipped',
+			symlink: {
+				path: symlinkPath,
+				target,
+				reason: isContainedPath(rootRealpath, target)
+					? 'not-followed'
+					: 'outside-root',
+			},
+		});
+	};
+
+	// Granular mode offers pieces of `.next` instead of `.next` itself, so a
+	// directory can hold candidates without being one.
+	const addCandidateHolders = async (
+		realpath: string,
+		parentPath: string | undefined,
+	): Promise<void> => {
+		if (parentPath) {
+			candidateHolders.add(
+				await fs.realpath(parentPath).catch(() => path.resolve(parentPath)),
+			);
+		}
+
+		let current = path.dirname(realpath);
+		while (isContainedPath(rootRealpath, current)) {
+			if (candidateHolders.has(current)) break;
+			candidateHolders.add(current);
+			const parent = path.dirname(current);
+			if (parent === current) break;
+			current = parent;
+		}
+	};
+
 	const addCandidate = async (
 		candidatePath: string,
 		metadata: CandidateMetadata,
 	): Promise<void> => {
 		const containedPath = await toContainedPath(rootRealpath, candidatePath);
-		if (!containedPath) return;
+		if (!containedPath) {
+			await reportSymlink(path.resolve(candidatePath));
+			return;
+		}
+
+		// Deleting a symlink frees nothing, so a followed link is offered as the
+		// directory it points to.
+		let candidateLocation = containedPath.path;
+		if (await isSymbolicLink(containedPath.path)) {
+			if (symlinks !== 'follow-contained') {
+				await reportSymlink(containedPath.path);
+				return;
+			}
+
+			candidateLocation = containedPath.realpath;
+		}
+
+		if (await isOnOtherDevice(candidateLocation)) return;
 
 		skipPaths.add(containedPath.realpath);
 		const existing = discoveredArtifacts.get(containedPath.realpath);
 		if (!existing) {
 			discoveredArtifacts.set(containedPath.realpath, {
 				...metadata,
-				path: containedPath.path,
+				path: candidateLocation,
+			});
+			await addCandidateHolders(containedPath.realpath, metadata.parentPath);
+			emit({
+				type: 'candidate-found',
+				path: candidateLocation,
+				cleanupScope: metadata.cleanupScope,
+				cleanupType: metadata.cleanupType,
+				...(metadata.detector ? {detector: metadata.detector} : {}),
 			});
 			return;
 		}
 
+		const turboTasks = mergeTurboTasks(
+			existing.turboTasks,
+			metadata.turboTasks,
+		);
+		const isProtected = existing.protected === true || metadata.protected;
 		if (
 			existing.cleanupScope === 'project' &&
 			metadata.cleanupScope === 'workspace'
 		) {
 			discoveredArtifacts.set(containedPath.realpath, {
 				...metadata,
-				path: containedPath.path,
+				...(turboTasks ? {turboTasks} : {}),
+				...(isProtected ? {protected: true} : {}),
+				path: candidateLocation,
 			});
+			return;
 		}
+
+		if (turboTasks) existing.turboTasks = turboTasks;
+		if (isProtected) existing.protected = true;
+	};
+
+	const isInsideCandidate = (realpath: string): boolean => {
+		let current = path.dirname(realpath);
+		while (isContainedPath(rootRealpath, current)) {
+			if (discoveredArtifacts.has(current)) return true;
+			const parent = path.dirname(current);
+			if (parent === current) break;
+			current = parent;
+		}
+
+		return false;
 	};
 
+	// Returns the subdirectories to walk next instead of recursing into them.
 	const scanDirectory = async (
 		directory: string,
 		scanRoot: ScanRoot,
 		depth: number,
-	): Promise<void> => {
+	): Promise<string[]> => {
+		if (signal?.aborted) return [];
 		const containedDirectory = await toContainedPath(rootRealpath, directory);
-		if (!containedDirectory) return;
-		if (processedDirectories.has(containedDirectory.realpath)) return;
-		if (skipPaths.has(containedDirectory.realpath)) return;
+		if (!containedDirectory) return [];
+		if (processedDirectories.has(containedDirectory.realpath)) return [];
+		if (skipPaths.has(containedDirectory.realpath)) return [];
+		if (await isOnOtherDevice(containedDirectory.path)) return [];
 		processedDirectories.add(containedDirectory.realpath);
+		emit({
+			type: 'directory-visited',
+			path: containedDirectory.path,
+			directoriesVisited: processedDirectories.size,
+		});
 
 		let entries: Dirent[];
 		try {
@@ -387,31 +1025,64 @@ export const scanArtifacts = async (
 				withFileTypes: true,
 			});
 		} catch {
-			return;
+			return [];
+		}
+
+		const customDistDirs = await findCustomDistDirs(
+			containedDirectory.path,
+			entries,
+			evaluateNextConfig,
+		);
+		for (const customDistDir of customDistDirs) {
+			const distDirMatches: ArtifactDetectorMatch[] = granularNextCache
+				? await findNextBuildCandidates(customDistDir.path)
+				: [{}];
+			// Keep the walk out of a split build even when nothing in it is offered.
+			skipPaths.add(
+				await fs.realpath(customDistDir.path).catch(() => customDistDir.path),
+			);
+			for (const match of distDirMatches) {
+				await addCandidate(match.path ?? customDistDir.path, {
+					cleanupScope: scanRoot.scope,
+					cleanupType: match.cleanupType ?? 'artifact',
+					detector: 'next',
+					parentPath: match.parentPath,
+					nextDistDir: customDistDir.info,
+				});
+			}
 		}
 
-		const customDistDir = await findCustomDistDir(
+		const tsconfigOutputs = await findTsconfigOutputs(
 			containedDirectory.path,
 			entries,
+			resolveTsconfigOutputs,
 		);
-		if (customDistDir) {
-			await addCandidate(customDistDir, {
+		for (const tsconfigOutput of tsconfigOutputs) {
+			await addCandidate(tsconfigOutput, {
 				cleanupScope: scanRoot.scope,
 				cleanupType: 'artifact',
+				detector: 'tsconfig',
 			});
 		}
 
 		const nextDirectories: string[] = [];
-		const specialChecks: Array<Promise<void>> = [];
 
 		for (const entry of entries) {
-			if (!entry.isDirectory()) continue;
-
 			const absolutePath = path.resolve(
 				path.join(containedDirectory.path, entry.name),
 			);
+			const isLinkedDirectory =
+				entry.isSymbolicLink() &&
+				symlinks !== 'skip' &&
+				(await isDirectoryTarget(absolutePath));
+			if (!entry.isDirectory() && !isLinkedDirectory) continue;
+
 			const containedPath = await toContainedPath(rootRealpath, absolutePath);
-			if (!containedPath) continue;
+			if (!containedPath || (isLinkedDirectory && symlinks === 'report')) {
+				if (isLinkedDirectory) await reportSymlink(absolutePath);
+				continue;
+			}
+
 			if (skipPaths.has(containedPath.realpath)) continue;
 
 			if (
@@ -422,46 +1093,33 @@ export const scanArtifacts = async (
 				continue;
 			}
 
-			if (ARTIFACT_NAMES.has(entry.name)) {
-				await addCandidate(containedPath.path, {
-					cleanupScope: scanRoot.scope,
-					cleanupType: 'artifact',
-				});
-				continue;
-			}
-
-			if (entry.name === 'node_modules') {
-				if (!includeNodeModules) {
-					continue;
-				}
-
-				specialChecks.push(
-					(async () => {
-						await addCandidate(containedPath.path, {
-							cleanupScope: scanRoot.scope,
-							cleanupType:
-								scanRoot.scope === 'workspace'
-									? 'workspace-node-modules'
-									: 'artifact',
-						});
-					})(),
-				);
-				continue;
-			}
-
-			if (entry.name === '.vercel') {
-				specialChecks.push(
-					(async () => {
-						const vercelOutput = await findVercelOutputArtifact(
-							containedPath.path,
-						);
-						if (!vercelOutput) return;
-						await addCandidate(vercelOutput, {
+			const detectorMatches = await runDetectors(detectors, {
+				path: containedPath.path,
+				entry,
+				directory: containedDirectory.path,
+				siblings: entries,
+				scope: scanRoot.scope,
+				depth,
+				includeNodeModules,
+				granularNextCache,
+				findNearestManifest,
+			});
+			if (detectorMatches) {
+				for (const match of detectorMatches) {
+					await addCandidate(
+						match.path
+							? path.resolve(containedDirectory.path, match.path)
+							: containedPath.path,
+						{
 							cleanupScope: scanRoot.scope,
-							cleanupType: 'artifact',
-						});
-					})(),
-				);
+							cleanupType: match.cleanupType ?? 'artifact',
+							detector: match.detector,
+							parentPath: match.parentPath,
+							deployAdapter: match.deployAdapter,
+							framework: match.framework,
+						},
+					);
+				}
 				continue;
 			}
 
@@ -476,12 +1134,7 @@ export const scanArtifacts = async (
 			nextDirectories.push(containedPath.path);
 		}
 
-		await Promise.all(specialChecks);
-		await Promise.all(
-			nextDirectories.map(async next =>
-				scanDirectory(next, scanRoot, depth + 1),
-			),
-		);
+		return nextDirectories;
 	};
 
 	for (const scanRoot of scanRoots) {
@@ -497,21 +1150,269 @@ export const scanArtifacts = async (
 			}
 		}
 
-		await scanDirectory(scanRoot.path, scanRoot, 0);
+		const taskRunnerCaches = await findTaskRunnerCacheCandidates(scanRoot.path);
+		for (const taskRunnerCache of taskRunnerCaches) {
+			await addCandidate(taskRunnerCache.path, {
+				cleanupScope: scanRoot.scope,
+				cleanupType: 'task-cache',
+				taskRunner: taskRunnerCache.taskRunner,
+			});
+		}
+
+		await walkTree(
+			queue,
+			[{directory: scanRoot.path, depth: 0}],
+			async ({directory, depth}) => {
+				const nextDirectories = await scanDirectory(directory, scanRoot, depth);
+				return nextDirectories.map(next => ({
+					directory: next,
+					depth: depth + 1,
+				}));
+			},
+		);
 	}
 
-	const items = await Promise.all(
-		[...discoveredArtifacts.values()].map(async metadata => {
-			const stats = await getArtifactStats(metadata.path);
-			return {
+	// Runs after the walk so outputs other detectors already proposed (`.next`,
+	// `.turbo`) are only tagged with their task instead of being split.
+	const turboOutputs = signal?.aborted
+		? []
+		: await resolveTurboOutputs(
+				rootDirectory,
+				workspaceRoots.map(workspace => workspace.path),
+				{
+					async isClaimed(outputPath) {
+						const containedPath = await toContainedPath(
+							rootRealpath,
+							outputPath,
+						);
+						return Boolean(
+							containedPath &&
+							(discoveredArtifacts.has(containedPath.realpath) ||
+								candidateHolders.has(containedPath.realpath)),
+						);
+					},
+				},
+			);
+	for (const turboOutput of turboOutputs) {
+		const cleanupScope: CleanupScope =
+			turboOutput.packageDirectory === rootDirectory ? 'project' : 'workspace';
+		if (!cleanupScopeSet.has(cleanupScope)) continue;
+
+		const containedPath = await toContainedPath(rootRealpath, turboOutput.path);
+		if (!containedPath || isInsideCandidate(containedPath.realpath)) continue;
+		// Proposing the whole directory would undo the split that claimed it.
+		if (
+			!discoveredArtifacts.has(containedPath.realpath) &&
+			candidateHolders.has(containedPath.realpath)
+		) {
+			continue;
+		}
+
+		await addCandidate(containedPath.path, {
+			cleanupScope,
+			cleanupType: 'artifact',
+			detector: 'turbo-outputs',
+			turboTasks: turboOutput.tasks,
+		});
+	}
+
+	// Like turbo outputs, extra artifacts run after the walk, so a pattern that
+	// matches what a detector already found only marks it protected.
+	for (const scanRoot of signal?.aborted ? [] : scanRoots) {
+		for (const extraArtifact of options.extraArtifacts ?? []) {
+			if (extraArtifact.scope && extraArtifact.scope !== scanRoot.scope) {
+				continue;
+			}
+
+			const matches: string[][] = [];
+			for (const alternative of expandBraces(extraArtifact.pattern)) {
+				const pattern = normalizeGlobPattern(alternative);
+				if (!pattern || pattern.startsWith('!')) continue;
+				matches.push(
+					...(await expandGlobSegments(scanRoot.path, pattern.split('/'))),
+				);
+			}
+
+			for (const segments of matches) {
+				const containedPath = await toContainedPath(
+					rootRealpath,
+					path.join(scanRoot.path, ...segments),
+				);
+				if (!containedPath || isInsideCandidate(containedPath.realpath)) {
+					continue;
+				}
+
+				await addCandidate(containedPath.path, {
+					cleanupScope: scanRoot.scope,
+					cleanupType: extraArtifact.type ?? 'artifact',
+					detector: 'extra-artifacts',
+					...(extraArtifact.protected ? {protected: true} : {}),
+				});
+			}
+		}
+	}
+
+	// Global caches lie outside the root, so they bypass the containment and
+	// symlink checks of `addCandidate`; `findGlobalCaches` already skips links.
+	for (const globalCache of signal?.aborted ? [] : globalCaches) {
+		const realpath = await fs
+			.realpath(globalCache.path)
+			.catch(() => globalCache.path);
+		if (discoveredArtifacts.has(realpath)) continue;
+
+		discoveredArtifacts.set(realpath, {
+			path: globalCache.path,
+			cleanupScope: 'global',
+			cleanupType: globalCache.cleanupType,
+			detector: 'global-cache',
+			protected: true,
+		});
+		emit({
+			type: 'candidate-found',
+			path: globalCache.path,
+			cleanupScope: 'global',
+			cleanupType: globalCache.cleanupType,
+			detector: 'global-cache',
+		});
+	}
+
+	const gitIgnoreMatcher = await createGitIgnoreMatcher(rootDirectory);
+	const index = options.cacheDirectory
+		? await loadScanIndex(options.cacheDirectory, rootRealpath, {
+				rebuild: options.rebuildCache,
+			})
+		: undefined;
+	const sized: Array<{path: string; nested: boolean} & SizedTotals> = [];
+	const sizedTrees = new Map<string, DirectoryRecord[]>();
+	const sizeCandidate = async ([realpath, metadata]: [
+		string,
+		DiscoveredCandidate,
+	]): Promise<void> => {
+		const isGlobal = metadata.cleanupScope === 'global';
+		const nested = isInsideCandidate(realpath);
+		const {stats, hardLinks, records} = await collectStats(metadata.path, {
+			signal,
+			queue,
+			index,
+			realpath,
+			// `oneFileSystem` bounds the scan root, not caches outside it.
+			device: isGlobal ? undefined : rootDevice,
+			onMountSkipped: reportMount,
+			sizedTrees,
+		});
+		if (nested && records.length > 0) sizedTrees.set(realpath, records);
+		// Neither the repository nor the project says anything about them.
+		const gitIgnored = isGlobal
+			? undefined
+			: await gitIgnoreMatcher?.isIgnored(metadata.path, stats.isDirectory);
+		if (options.requireGitIgnored && gitIgnored === false) return;
+		const project = isGlobal ? {} : await describeProject(realpath, metadata);
+		// Tool caches come from the same detector but are not installs.
+		const nodeModulesTags =
+			metadata.detector === 'node_modules' &&
+			metadata.cleanupType !== 'tool-cache'
+				? await inspectNodeModules(metadata.path)
+				: [];
+		sized.push({path: metadata.path, nested, stats, hardLinks});
+
+		emit({
+			type: 'candidate-sized',
+			item: {
 				path: metadata.path,
 				...stats,
-				type: 'artifact' as const,
+				type: 'artifact',
 				cleanupScope: metadata.cleanupScope,
 				cleanupType: metadata.cleanupType,
-			};
-		}),
+				detector: metadata.detector,
+				...(metadata.parentPath ? {parentPath: metadata.parentPath} : {}),
+				...(metadata.nextDistDir ? {nextDistDir: metadata.nextDistDir} : {}),
+				...(metadata.taskRunner ? {taskRunner: metadata.taskRunner} : {}),
+				...(metadata.turboTasks ? {turboTasks: metadata.turboTasks} : {}),
+				...(metadata.deployAdapter
+					? {deployAdapter: metadata.deployAdapter}
+					: {}),
+				...(metadata.framework ? {framework: metadata.framework} : {}),
+				...(metadata.protected ? {protected: true} : {}),
+				...(nodeModulesTags.length > 0 ? {nodeModulesTags} : {}),
+				...(gitIgnored === undefined ? {} : {gitIgnored}),
+				...project,
+			},
+		});
+	};
+
+	// Nested candidates are sized first, so the walk of the candidate around
+	// each one takes its records instead of listing the same tree twice.
+	const candidates = [...discoveredArtifacts];
+	const isNested = ([realpath]: [string, DiscoveredCandidate]): boolean =>
+		isInsideCandidate(realpath);
+	await Promise.all(candidates.filter(isNested).map(sizeCandidate));
+	await Promise.all(
+		candidates.filter(candidate => !isNested(candidate)).map(sizeCandidate),
 	);
+	sizedTrees.clear();
+
+	// A partial scan would drop every record it did not reach.
+	if (!signal?.aborted) await index?.save();
+
+	const extraByPath = resolveSharedHardLinks(sized);
+	for (const candidate of sized) {
+		const extra = extraByPath.get(candidate.path);
+		if (!extra) continue;
+		emit({
+			type: 'reclaimable-size',
+			path: candidate.path,
+			reclaimableSize: candidate.stats.reclaimableSize + extra,
+		});
+	}
+};
+
+/**
+ * Streams scan progress: every directory the walk visits, every candidate as
+ * it is found, and then every candidate once it is sized. Candidates are only
+ * sized after the walk finishes, because later rules can still retag them.
+ *
+ * Aborting `options.signal` ends the stream early without throwing: the walk
+ * stops, and candidates found so far are still sized, with partial stats and
+ * `error: SCAN_ABORTED_MESSAGE` for any that were not measured completely.
+ * Leaving the loop early aborts the remaining work the same way.
+ */
+export const scanArtifactsStream = async function* (
+	cwd: string,
+	options: ScannerOptions = {},
+): AsyncGenerator<ScanEvent> {
+	const controller = new AbortController();
+	const signal = options.signal
+		? AbortSignal.any([options.signal, controller.signal])
+		: controller.signal;
+	const queue = createEventQueue<ScanEvent>();
+	runScan(cwd, {...options, signal}, queue.push).then(
+		() => {
+			queue.close();
+		},
+		(error: unknown) => {
+			queue.close(error ?? new Error('Scan failed'));
+		},
+	);
+
+	try {
+		yield* queue.drain();
+	} finally {
+		controller.abort();
+	}
+};
+
+export const scanArtifacts = async (
+	cwd: string,
+	options: ScannerOptions = {},
+): Promise<ScanItem[]> => {
+	const items: ScanItem[] = [];
+	for await (const event of scanArtifactsStream(cwd, options)) {
+		if (event.type === 'candidate-sized') items.push(event.item);
+		if (event.type === 'reclaimable-size') {
+			const item = items.find(entry => entry.path === event.path);
+			if (item) item.reclaimableSize = event.reclaimableSize;
+		}
+	}
 
 	return items.sort(
 		(left, right) =>
@@ -0,0 +1,303 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+interface ResolvedCompilerOptions {
+	outDir?: string;
+	declarationDir?: string;
+	tsBuildInfoFile?: string;
+	rootDir?: string;
+	incremental?: boolean;
+	composite?: boolean;
+	noEmit?: boolean;
+}
+
+export interface TsconfigOutput {
+	path: string;
+	kind: 'directory' | 'file';
+}
+
+interface LoadedTsconfig {
+	compilerOptions: ResolvedCompilerOptions;
+	references: string[];
+}
+
+type TsconfigReader = (
+	configPath: string,
+) => Promise<Record<string, unknown> | null>;
+
+const PATH_OPTIONS = [
+	'outDir',
+	'declarationDir',
+	'tsBuildInfoFile',
+	'rootDir',
+] as const;
+const BOOLEAN_OPTIONS = ['incremental', 'composite', 'noEmit'] as const;
+const MAX_EXTENDS_DEPTH = 16;
+const TRAILING_COMMA_LOOKAHEAD = /(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*[}\]]/y;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isContainedPath = (rootPath: string, targetPath: string): boolean =>
+	targetPath === rootPath || targetPath.startsWith(`${rootPath}${path.sep}`);
+
+/**
+ * Strips comments and trailing commas from tsconfig-flavoured JSON while
+ * leaving string contents (such as `"@/*"` path aliases) untouched.
+ */
+export const stripJsonComments = (source: string): string => {
+	let output = '';
+	let index = 0;
+	while (index < source.length) {
+		const character = source[index];
+		const next = source[index + 1];
+
+		if (character === '"') {
+			let end = index + 1;
+			while (end < source.length && source[end] !== '"') {
+				end += source[end] === '\\' ? 2 : 1;
+			}
+
+			output += source.slice(index, end + 1);
+			index = end + 1;
+			continue;
+		}
+
+		if (character === '/' && next === '/') {
+			while (index < source.length && source[index] !== '\n') index++;
+			continue;
+		}
+
+		if (character === '/' && next === '*') {
+			const end = source.indexOf('*/', index + 2);
+			index = end === -1 ? source.length : end + 2;
+			continue;
+		}
+
+		if (character === ',') {
+			TRAILING_COMMA_LOOKAHEAD.lastIndex = index + 1;
+			if (TRAILING_COMMA_LOOKAHEAD.test(source)) {
+				index++;
+				continue;
+			}
+		}
+
+		output += character;
+		index++;
+	}
+
+	return output;
+};
+
+const readTsconfigJson = async (
+	configPath: string,
+): Promise<Record<string, unknown> | null> => {
+	try {
+		const content = await fs.readFile(configPath, 'utf8');
+		const parsed = JSON.parse(stripJsonComments(content)) as unknown;
+		return isRecord(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+};
+
+const isFile = async (filePath: string): Promise<boolean> => {
+	try {
+		const stat = await fs.stat(filePath);
+		return stat.isFile();
+	} catch {
+		return false;
+	}
+};
+
+const resolveConfigFile = async (
+	candidatePath: string,
+): Promise<string | null> => {
+	if (await isFile(candidatePath)) return candidatePath;
+	if (await isFile(`${candidatePath}.json`)) return `${candidatePath}.json`;
+	const nestedConfig = path.join(candidatePath, 'tsconfig.json');
+	return (await isFile(nestedConfig)) ? nestedConfig : null;
+};
+
+const resolveExtendsPath = async (
+	directory: string,
+	specifier: string,
+): Promise<string | null> => {
+	if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+		return resolveConfigFile(path.resolve(directory, specifier));
+	}
+
+	let current = directory;
+	while (true) {
+		const resolved = await resolveConfigFile(
+			path.join(current, 'node_modules', specifier),
+		);
+		if (resolved) return resolved;
+
+		const parent = path.dirname(current);
+		if (parent === current) return null;
+		current = parent;
+	}
+};
+
+const loadTsconfig = async (
+	configPath: string,
+	read: TsconfigReader,
+	depth = 0,
+): Promise<LoadedTsconfig | null> => {
+	if (depth > MAX_EXTENDS_DEPTH) return null;
+
+	const raw = await read(configPath);
+	if (!raw) return null;
+
+	const directory = path.dirname(configPath);
+	const compilerOptions: ResolvedCompilerOptions = {};
+	const extendsList = Array.isArray(raw.extends)
+		? raw.extends
+		: typeof raw.extends === 'string'
+			? [raw.extends]
+			: [];
+	for (const specifier of extendsList) {
+		if (typeof specifier !== 'string') continue;
+		const basePath = await resolveExtendsPath(directory, specifier);
+		if (!basePath) continue;
+		const base = await loadTsconfig(basePath, read, depth + 1);
+		if (base) Object.assign(compilerOptions, base.compilerOptions);
+	}
+
+	// Path options resolve against the config that declares them, not the one
+	// that extends it, matching tsc.
+	const ownOptions = isRecord(raw.compilerOptions) ? raw.compilerOptions : {};
+	for (const option of PATH_OPTIONS) {
+		const value = ownOptions[option];
+		if (typeof value === 'string' && value.trim()) {
+			compilerOptions[option] = path.resolve(directory, value.trim());
+		}
+	}
+
+	for (const option of BOOLEAN_OPTIONS) {
+		const value = ownOptions[option];
+		if (typeof value === 'boolean') compilerOptions[option] = value;
+	}
+
+	const references = Array.isArray(raw.references)
+		? raw.references
+				.map(reference =>
+					isRecord(reference) && typeof reference.path === 'string'
+						? path.resolve(directory, reference.path)
+						: null,
+				)
+				.filter((reference): reference is string => Boolean(reference))
+		: [];
+
+	return {compilerOptions, references};
+};
+
+/**
+ * An output directory that holds the project itself (`outDir: ".."`) or its
+ * `rootDir` would take sources with it, so it is never proposed.
+ */
+const isSafeOutputDirectory = (
+	outputDirectory: string,
+	configDirectory: string,
+	rootDirectory: string | undefined,
+): boolean =>
+	!isContainedPath(outputDirectory, configDirectory) &&
+	!(rootDirectory && isContainedPath(outputDirectory, rootDirectory));
+
+const collectProjectOutputs = (
+	configPath: string,
+	{compilerOptions}: LoadedTsconfig,
+): TsconfigOutput[] => {
+	const configDirectory = path.dirname(configPath);
+	const outputs: TsconfigOutput[] = [];
+
+	if (!compilerOptions.noEmit) {
+		for (const outputDirectory of [
+			compilerOptions.outDir,
+			compilerOptions.declarationDir,
+		]) {
+			if (
+				outputDirectory &&
+				isSafeOutputDirectory(
+					outputDirectory,
+					configDirectory,
+					compilerOptions.rootDir,
+				)
+			) {
+				outputs.push({path: outputDirectory, kind: 'directory'});
+			}
+		}
+	}
+
+	if (compilerOptions.tsBuildInfoFile) {
+		outputs.push({path: compilerOptions.tsBuildInfoFile, kind: 'file'});
+	} else if (compilerOptions.incremental || compilerOptions.composite) {
+		const buildInfoName = `${path.basename(configPath, '.json')}.tsbuildinfo`;
+		outputs.push({
+			path: path.join(compilerOptions.outDir ?? configDirectory, buildInfoName),
+			kind: 'file',
+		});
+	}
+
+	return outputs;
+};
+
+const collectTsconfigOutputs = async (
+	configPath: string,
+	read: TsconfigReader,
+): Promise<TsconfigOutput[]> => {
+	const outputs = new Map<string, TsconfigOutput>();
+	const visited = new Set<string>();
+	const pending = [path.resolve(configPath)];
+
+	while (pending.length > 0) {
+		const current = pending.pop()!;
+		const resolvedPath = await resolveConfigFile(current);
+		if (!resolvedPath || visited.has(resolvedPath)) continue;
+		visited.add(resolvedPath);
+
+		const tsconfig = await loadTsconfig(resolvedPath, read);
+		if (!tsconfig) continue;
+
+		for (const output of collectProjectOutputs(resolvedPath, tsconfig)) {
+			outputs.set(output.path, output);
+		}
+
+		pending.push(...tsconfig.references);
+	}
+
+	return [...outputs.values()];
+};
+
+/**
+ * Resolves the build outputs (`outDir`, `declarationDir` and the
+ * `.tsbuildinfo` file) of a tsconfig and every project it references. Paths
+ * are absolute and not checked for existence.
+ */
+export const resolveTsconfigOutputs = async (
+	configPath: string,
+): Promise<TsconfigOutput[]> =>
+	collectTsconfigOutputs(configPath, readTsconfigJson);
+
+/**
+ * Returns `resolveTsconfigOutputs` with every config file memoized, so the
+ * base config all packages extend, or a project several others reference, is
+ * read once per scan.
+ */
+export const createTsconfigOutputsResolver = (): ((
+	configPath: string,
+) => Promise<TsconfigOutput[]>) => {
+	const cache = new Map<string, Promise<Record<string, unknown> | null>>();
+	const read: TsconfigReader = async configPath => {
+		let pending = cache.get(configPath);
+		if (!pending) {
+			pending = readTsconfigJson(configPath);
+			cache.set(configPath, pending);
+		}
+
+		return pending;
+	};
+
+	return async configPath => collectTsconfigOutputs(configPath, read);
+};
@@ -0,0 +1,294 @@
+import fs from 'node:fs/promises';
+import type {Dirent} from 'node:fs';
+import path from 'node:path';
+import {
+	expandGlobSegments,
+	isWildcardSegment,
+	matchPathPrefix,
+	matchPathSegments,
+	normalizeGlobPattern,
+} from './glob.js';
+import {stripJsonComments} from './tsconfig.js';
+
+export interface TurboOutput {
+	path: string;
+	/** Package directory whose tasks produced the output. */
+	packageDirectory: string;
+	tasks: string[];
+}
+
+export interface TurboOutputOptions {
+	/**
+	 * Paths for which this returns true are reported as-is instead of being
+	 * split around `!` exclusions, so outputs already proposed by another
+	 * detector are only tagged.
+	 */
+	isClaimed?: (outputPath: string) => Promise<boolean>;
+}
+
+type TaskOutputs = Map<string, string[]>;
+
+interface OutputPatterns {
+	includes: string[][];
+	excludes: string[][];
+}
+
+const TURBO_CONFIG_FILE = 'turbo.json';
+const TURBO_EXTENDS_MARKER = '$TURBO_EXTENDS$';
+const ROOT_TASK_PREFIX = '//#';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+	Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const readJsonc = async (
+	filePath: string,
+): Promise<Record<string, unknown> | null> => {
+	try {
+		const content = await fs.readFile(filePath, 'utf8');
+		const parsed = JSON.parse(stripJsonComments(content)) as unknown;
+		return isRecord(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+};
+
+const readTurboTasks = async (
+	directory: string,
+): Promise<TaskOutputs | null> => {
+	const config = await readJsonc(path.join(directory, TURBO_CONFIG_FILE));
+	if (!config) return null;
+
+	// Turborepo 1.x called the task map `pipeline`.
+	const tasks = isRecord(config.tasks)
+		? config.tasks
+		: isRecord(config.pipeline)
+			? config.pipeline
+			: {};
+	const taskOutputs: TaskOutputs = new Map();
+	for (const [task, definition] of Object.entries(tasks)) {
+		if (!isRecord(definition) || !Array.isArray(definition.outputs)) continue;
+		taskOutputs.set(
+			task,
+			definition.outputs.filter(
+				(output): output is string => typeof output === 'string',
+			),
+		);
+	}
+
+	return taskOutputs;
+};
+
+const readPackageName = async (directory: string): Promise<string | null> => {
+	try {
+		const content = await fs.readFile(
+			path.join(directory, 'package.json'),
+			'utf8',
+		);
+		const parsed = JSON.parse(content) as unknown;
+		return isRecord(parsed) && typeof parsed.name === 'string'
+			? parsed.name
+			: null;
+	} catch {
+		return null;
+	}
+};
+
+const resolveRootTasks = (
+	rootTasks: TaskOutputs,
+	hasWorkspaces: boolean,
+): TaskOutputs => {
+	const resolved: TaskOutputs = new Map();
+	for (const [task, outputs] of rootTasks) {
+		if (task.startsWith(ROOT_TASK_PREFIX)) {
+			resolved.set(task.slice(ROOT_TASK_PREFIX.length), outputs);
+		} else if (!hasWorkspaces && !task.includes('#')) {
+			// Single-package repos run the generic tasks in the root itself.
+			resolved.set(task, outputs);
+		}
+	}
+
+	return resolved;
+};
+
+const resolveWorkspaceTasks = (
+	rootTasks: TaskOutputs,
+	workspaceTasks: TaskOutputs | null,
+	packageName: string | null,
+): TaskOutputs => {
+	const resolved: TaskOutputs = new Map();
+	for (const [task, outputs] of rootTasks) {
+		if (!task.includes('#')) resolved.set(task, outputs);
+	}
+
+	// `<package>#<task>` entries in the root config beat the generic ones.
+	for (const [task, outputs] of rootTasks) {
+		const separatorIndex = task.indexOf('#');
+		if (separatorIndex <= 0) continue;
+		if (task.slice(0, separatorIndex) !== packageName) continue;
+		resolved.set(task.slice(separatorIndex + 1), outputs);
+	}
+
+	for (const [task, outputs] of workspaceTasks ?? []) {
+		resolved.set(
+			task,
+			outputs.includes(TURBO_EXTENDS_MARKER)
+				? [
+						...(resolved.get(task) ?? []),
+						...outputs.filter(output => output !== TURBO_EXTENDS_MARKER),
+					]
+				: outputs,
+		);
+	}
+
+	return resolved;
+};
+
+const parseOutputPatterns = (outputs: readonly string[]): OutputPatterns => {
+	const includes: string[][] = [];
+	const excludes: string[][] = [];
+
+	for (const output of outputs) {
+		// `$TURBO_ROOT$` and friends point outside the package.
+		if (output.includes('$')) continue;
+		const normalized = normalizeGlobPattern(output);
+		if (!normalized) continue;
+
+		if (normalized.startsWith('!')) {
+			excludes.push(normalized.slice(1).split('/'));
+			continue;
+		}
+
+		// `dist/**` and `dist/**/*` both mean "the dist directory".
+		const segments = normalized.split('/');
+		while (
+			segments.at(-1) === '**' ||
+			(segments.at(-1) === '*' && segments.at(-2) === '**')
+		) {
+			segments.pop();
+		}
+
+		// Never propose the package directory itself, nor a pattern like `*` or
+		// `*.js` that would match its sources next to the build output.
+		if (segments.length > 0 && !isWildcardSegment(segments[0])) {
+			includes.push(segments);
+		}
+	}
+
+	return {includes, excludes};
+};
+
+const listEntries = async (directory: string): Promise<Dirent[]> => {
+	try {
+		return await fs.readdir(directory, {withFileTypes: true});
+	} catch {
+		return [];
+	}
+};
+
+const applyExclusions = async (
+	baseDirectory: string,
+	segments: string[],
+	excludes: readonly string[][],
+	isClaimed: TurboOutputOptions['isClaimed'],
+): Promise<string[]> => {
+	const outputPath = path.join(baseDirectory, ...segments);
+	if (excludes.some(exclude => matchPathSegments(segments, exclude))) {
+		return [];
+	}
+
+	if (await isClaimed?.(outputPath)) return [outputPath];
+	if (!excludes.some(exclude => matchPathPrefix(segments, exclude))) {
+		return [outputPath];
+	}
+
+	// Something below is excluded: offer the siblings of the excluded part.
+	const entries = await listEntries(outputPath);
+	const childOutputs = await Promise.all(
+		entries.map(async entry =>
+			applyExclusions(
+				baseDirectory,
+				[...segments, entry.name],
+				excludes,
+				isClaimed,
+			),
+		),
+	);
+	return childOutputs.flat();
+};
+
+const expandTaskOutputs = async (
+	packageDirectory: string,
+	outputs: readonly string[],
+	isClaimed: TurboOutputOptions['isClaimed'],
+): Promise<string[]> => {
+	const {includes, excludes} = parseOutputPatterns(outputs);
+	const expanded = await Promise.all(
+		includes.map(async include => {
+			const matches = await expandGlobSegments(packageDirectory, include);
+			const resolved = await Promise.all(
+				matches.map(async segments =>
+					applyExclusions(packageDirectory, segments, excludes, isClaimed),
+				),
+			);
+			return resolved.flat();
+		}),
+	);
+	return expanded.flat();
+};
+
+/**
+ * Expands the `outputs` globs of every task in the root `turbo.json` (and the
+ * per-package `turbo.json` overrides) against the root and each workspace.
+ * Returns nothing when the root has no `turbo.json`.
+ */
+export const resolveTurboOutputs = async (
+	rootDirectory: string,
+	workspaceDirectories: readonly string[],
+	{isClaimed}: TurboOutputOptions = {},
+): Promise<TurboOutput[]> => {
+	const rootTasks = await readTurboTasks(rootDirectory);
+	if (!rootTasks) return [];
+
+	const packages = [
+		{
+			directory: rootDirectory,
+			tasks: resolveRootTasks(rootTasks, workspaceDirectories.length > 0),
+		},
+		...(await Promise.all(
+			workspaceDirectories.map(async directory => ({
+				directory,
+				tasks: resolveWorkspaceTasks(
+					rootTasks,
+					await readTurboTasks(directory),
+					await readPackageName(directory),
+				),
+			})),
+		)),
+	];
+
+	const outputs = new Map<string, TurboOutput>();
+	for (const {directory, tasks} of packages) {
+		for (const [task, taskOutputs] of tasks) {
+			const outputPaths = await expandTaskOutputs(
+				directory,
+				taskOutputs,
+				isClaimed,
+			);
+			for (const outputPath of outputPaths) {
+				const existing = outputs.get(outputPath);
+				if (existing) {
+					if (!existing.tasks.includes(task)) existing.tasks.push(task);
+					continue;
+				}
+
+				outputs.set(outputPath, {
+					path: outputPath,
+					packageDirectory: directory,
+					tasks: [task],
+				});
+			}
+		}
+	}
+
+	return [...outputs.values()];
+};
@@ -1,19 +1,87 @@
+import type {Dirent} from 'node:fs';
+
 export type ScanItemType = 'artifact' | 'asset';
-export type CleanupScope = 'project' | 'workspace';
+/**
+ * Where a candidate lives: the scanned project, one of its workspace packages,
+ * or a user-level cache shared by every project (`global`, opt-in only).
+ */
+export type CleanupScope = 'project' | 'workspace' | 'global';
 export type CleanupType =
 	| 'artifact'
 	| 'asset'
 	| 'pm-cache'
-	| 'workspace-node-modules';
+	| 'workspace-node-modules'
+	| 'next-cache'
+	| 'next-standalone'
+	| 'next-trace'
+	| 'task-cache'
+	| 'test-output'
+	| 'tool-cache';
+export type TaskRunner = 'turbo' | 'nx' | 'rush' | 'lerna';
+export type DeployAdapter = 'vercel' | 'open-next' | 'netlify' | 'cloudflare';
+export type Framework =
+	| 'nuxt'
+	| 'sveltekit'
+	| 'astro'
+	| 'remix'
+	| 'expo'
+	| 'angular'
+	| 'vite'
+	| 'parcel';
 export type MonorepoMode = 'auto' | 'on' | 'off';
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+/**
+ * How a `node_modules` compares to the package it belongs to: `stale` when the
+ * lockfile changed after the install, `orphaned` without a `package.json` next
+ * to it, and `foreign` when another package manager installed it.
+ */
+export type NodeModulesTag = 'stale' | 'orphaned' | 'foreign';
+
+/**
+ * What the scan does with symlinks: `skip` ignores symlinked directories and
+ * candidates, `report` ignores them too but reports each one, and
+ * `follow-contained` walks and offers them when they resolve inside the root.
+ */
+export type SymlinkPolicy = 'skip' | 'report' | 'follow-contained';
+
+export interface SkippedSymlink {
+	path: string;
+	/** Where the link resolves to. */
+	target: string;
+	/** `outside-root` links are skipped under every policy. */
+	reason: 'outside-root' | 'not-followed';
+}
 export type WorkspaceDiscoveryMode =
 	| 'manifest-fallback'
 	| 'manifest-only'
 	| 'heuristic-only';
 export type WorkspaceDiscoverySource = 'manifest' | 'heuristic' | 'none';
 
+export interface NextDistDirInfo {
+	/** Absolute path of the `next.config.*` file that declared the distDir. */
+	configFile: string;
+	distDir: string;
+	/** Next.js phases that produce this distDir; empty for pattern matches. */
+	phases: string[];
+	resolvedBy: 'evaluation' | 'pattern';
+}
+
 export interface ArtifactStats {
+	/** Same as `apparentSize`. */
 	size: number;
+	/** Sum of the file lengths (`stat.size`), as `du --apparent-size` reports. */
+	apparentSize: number;
+	/**
+	 * Allocated blocks (`blocks * 512`), directories included and hardlinked
+	 * files counted once.
+	 */
+	diskUsage: number;
+	/**
+	 * The part of `diskUsage` that deleting the path frees: files that still
+	 * have a link elsewhere are left out. In scan results, a file whose links
+	 * are spread over several candidates counts towards exactly one of them.
+	 */
+	reclaimableSize: number;
 	mtime: Date;
 	fileCount: number;
 	isDirectory: boolean;
@@ -25,6 +93,121 @@ export interface ScanItem extends ArtifactStats {
 	type?: ScanItemType;
 	cleanupScope?: CleanupScope;
 	cleanupType?: CleanupType;
+	/** Name of the detector that proposed the candidate. */
+	detector?: string;
+	/** Build directory a granular sub-candidate was split out of. */
+	parentPath?: string;
+	nextDistDir?: NextDistDirInfo;
+	taskRunner?: TaskRunner;
+	/** Turborepo tasks whose `outputs` produce the candidate. */
+	turboTasks?: string[];
+	/** Deployment platform whose adapter writes the candidate. */
+	deployAdapter?: DeployAdapter;
+	/** Non-Next.js framework whose build or cache produced the candidate. */
+	framework?: Framework;
+	/** Whether git ignores the path; absent outside a git repository. */
+	gitIgnored?: boolean;
+	/** Project the candidate belongs to; only set by sweep mode. */
+	projectRoot?: string;
+	/** `name` of the nearest `package.json` above the candidate. */
+	packageName?: string;
+	/** `next` version range that package declares. */
+	nextVersion?: string;
+	/** Contents of `BUILD_ID` in a Next.js build directory. */
+	buildId?: string;
+	/** When that `BUILD_ID` was written, i.e. when the build finished. */
+	buildTime?: Date;
+	/** Workspace package directory the candidate lies in. */
+	workspaceDirectory?: string;
+	/**
+	 * Set on global caches and `protected` extra artifacts; deleting it
+	 * requires `--apply`.
+	 */
+	protected?: boolean;
+	/** Set on `node_modules` candidates that look out of date with their package. */
+	nodeModulesTags?: NodeModulesTag[];
+}
+
+export interface PackageManifest {
+	/** Directory that holds the `package.json`. */
+	directory: string;
+	name?: string;
+	/** Every dependency name, across all dependency fields. */
+	dependencies: Set<string>;
+	/** Declared version range per dependency, from the first field listing it. */
+	dependencyVersions: Map<string, string>;
+}
+
+export type ManifestResolver = (
+	directory: string,
+) => Promise<PackageManifest | null>;
+
+export interface ArtifactDetectorContext {
+	/** Absolute path of the directory entry being inspected. */
+	path: string;
+	entry: Dirent;
+	/** Absolute path of the directory that contains the entry. */
+	directory: string;
+	/** Every entry of `directory`, including files and the entry itself. */
+	siblings: readonly Dirent[];
+	scope: CleanupScope;
+	depth: number;
+	includeNodeModules: boolean;
+	granularNextCache: boolean;
+	/** Nearest `package.json` to a directory, memoized for the whole scan. */
+	findNearestManifest: ManifestResolver;
+}
+
+export interface ArtifactDetectorMatch {
+	/** Candidate path; defaults to the inspected entry. */
+	path?: string;
+	cleanupType?: CleanupType;
+	parentPath?: string;
+	deployAdapter?: DeployAdapter;
+	framework?: Framework;
+}
+
+/**
+ * A falsy result leaves the entry to the next detectors and the scanner walk.
+ * Any match, even an empty list, claims the entry so the walk does not descend
+ * into it.
+ */
+export type ArtifactDetectorResult =
+	| ArtifactDetectorMatch
+	| readonly ArtifactDetectorMatch[]
+	| false
+	| null
+	| undefined;
+
+export interface ArtifactDetector {
+	name: string;
+	detect: (
+		context: ArtifactDetectorContext,
+	) => ArtifactDetectorResult | Promise<ArtifactDetectorResult>;
+}
+
+export interface ArtifactDetectorConfig {
+	name: string;
+	directoryNames: string[];
+	siblingFiles?: string[];
+}
+
+/** Cleanup types an `extraArtifacts` entry may claim. */
+export type ExtraArtifactType = Extract<
+	CleanupType,
+	'artifact' | 'pm-cache' | 'task-cache' | 'test-output' | 'tool-cache'
+>;
+
+/** A user-defined glob that turns every path it matches into a candidate. */
+export interface ExtraArtifactConfig {
+	/** Glob relative to each scanned project or workspace package. */
+	pattern: string;
+	/** Defaults to `artifact`. */
+	type?: ExtraArtifactType;
+	/** Only match below roots of this scope; both when absent. */
+	scope?: Exclude<CleanupScope, 'global'>;
+	/** Never delete the matches without `--apply`. */
+	protected?: boolean;
 }
 
 export interface PruneConfig {
@@ -37,6 +220,12 @@ export interface PruneConfig {
 	includeNodeModules?: boolean;
 	includeProjectLocalPmCaches?: boolean;
 	maxScanDepth?: number;
+	detectors?: ArtifactDetectorConfig[];
+	extraArtifacts?: ExtraArtifactConfig[];
+	granularNextCache?: boolean;
+	evaluateNextConfig?: boolean;
+	requireGitIgnored?: boolean;
+	symlinks?: SymlinkPolicy;
 }
 
 export interface ScannerOptions {
@@ -47,8 +236,101 @@ export interface ScannerOptions {
 	includeNodeModules?: boolean;
 	includeProjectLocalPmCaches?: boolean;
 	maxDepth?: number;
+	detectors?: Iterable<ArtifactDetector>;
+	extraArtifacts?: readonly ExtraArtifactConfig[];
+	/** Split `.next` into its cache, standalone and trace sub-candidates. */
+	granularNextCache?: boolean;
+	/**
+	 * Resolve `distDir` by evaluating `next.config.*` for every Next.js phase in
+	 * a sandboxed child process; falls back to pattern matching when evaluation
+	 * fails. This runs project code, so it defaults to false.
+	 */
+	evaluateNextConfig?: boolean;
+	/**
+	 * Drop candidates git does not ignore (`gitIgnored === false`). Candidates
+	 * outside a git repository are kept.
+	 */
+	requireGitIgnored?: boolean;
+	/** Defaults to `skip`. */
+	symlinks?: SymlinkPolicy;
+	/**
+	 * Stay on the device of the scan root: directories on another filesystem
+	 * (bind mounts, tmpfs) are neither walked, sized nor offered.
+	 */
+	oneFileSystem?: boolean;
+	/** Stops the scan early; see `scanArtifactsStream` for the partial result. */
+	signal?: AbortSignal;
+	/**
+	 * How many directories the walk reads, and how many `readdir`/`lstat`
+	 * calls the sizing keeps in flight, at once. Defaults to
+	 * `DEFAULT_SCAN_CONCURRENCY`.
+	 */
+	concurrency?: number;
+	/**
+	 * Directory of the persistent scan index. Sizing then skips listing every
+	 * directory whose mtime is unchanged since the last scan of the same root,
+	 * and the index is rewritten after the scan.
+	 */
+	cacheDirectory?: string;
+	/** Ignores the index in `cacheDirectory` and writes a fresh one. */
+	rebuildCache?: boolean;
+}
+
+export interface ScanDirectoryVisitedEvent {
+	type: 'directory-visited';
+	path: string;
+	/** Directories visited so far, this one included. */
+	directoriesVisited: number;
+}
+
+/**
+ * A new candidate path. Its metadata can still change before it is sized, and
+ * `requireGitIgnored` may drop it without a matching `candidate-sized` event.
+ */
+export interface ScanCandidateFoundEvent {
+	type: 'candidate-found';
+	path: string;
+	cleanupScope: CleanupScope;
+	cleanupType: CleanupType;
+	detector?: string;
+}
+
+export interface ScanCandidateSizedEvent {
+	type: 'candidate-sized';
+	item: ScanItem;
 }
 
+/** A symlink the scan did not follow; only sent with `symlinks: 'report'`. */
+export interface ScanSymlinkSkippedEvent {
+	type: 'symlink-skipped';
+	symlink: SkippedSymlink;
+}
+
+/** A mount point `oneFileSystem` kept the scan out of. */
+export interface ScanMountSkippedEvent {
+	type: 'mount-skipped';
+	path: string;
+}
+
+/**
+ * Sent once every candidate is sized, for each candidate whose
+ * `reclaimableSize` grows because some of its hardlinked files only have links
+ * inside other candidates, which a full cleanup frees together.
+ */
+export interface ScanReclaimableSizeEvent {
+	type: 'reclaimable-size';
+	path: string;
+	reclaimableSize: number;
+}
+
+export type ScanEvent =
+	| ScanDirectoryVisitedEvent
+	| ScanCandidateFoundEvent
+	| ScanCandidateSizedEvent
+	| ScanSymlinkSkippedEvent
+	| ScanMountSkippedEvent
+	| ScanReclaimableSizeEvent;
+
 export type RuntimeScanOptions = ScannerOptions & {
 	cleanupScope?: string;
 };
@@ -56,6 +338,39 @@ export type RuntimeScanOptions = ScannerOptions & {
 export interface AssetScannerOptions {
 	sourceDirectories?: string[];
 	skipDirs?: Iterable<string>;
+	/**
+	 * Stops the scan early. An aborted scan returns no assets, because any of
+	 * them could be referenced by a source file it did not read.
+	 */
+	signal?: AbortSignal;
+}
+
+export interface WorkspaceDiscoveryOptions {
+	signal?: AbortSignal;
+}
+
+/**
+ * What makes a directory a project root in sweep mode: a `package.json` that
+ * depends on `next`, or a workspace manifest.
+ */
+export type ProjectKind = 'next' | 'workspace';
+
+export interface ProjectRoot {
+	path: string;
+	kind: ProjectKind;
+	/** `name` from the root `package.json`. */
+	name?: string;
+}
+
+export interface ProjectDiscoveryOptions {
+	signal?: AbortSignal;
+	/** Directories listed at once; defaults to `DEFAULT_SCAN_CONCURRENCY`. */
+	concurrency?: number;
+	/**
+	 * Levels below the start directory to search; defaults to
+	 * `DEFAULT_PROJECT_DISCOVERY_DEPTH`.
+	 */
+	maxDepth?: number;
 }
 
 export interface DeleteSuccessResult {
@@ -86,4 +401,6 @@ export interface WorkspaceDiscoveryResult {
 	source: WorkspaceDiscoverySource;
 	manifestPatterns: string[];
 	hasManifest: boolean;
+	/** True when the signal fired; `workspaceDirectories` is then partial. */
+	aborted: boolean;
 }
@@ -0,0 +1,110 @@
+export const DEFAULT_SCAN_CONCURRENCY = 64;
+
+export interface WorkQueue {
+	concurrency: number;
+	/**
+	 * Queues a job for the next free worker. Jobs handle their own errors; a
+	 * rejection is dropped so it cannot stop the worker.
+	 */
+	add: (job: () => Promise<void>) => void;
+}
+
+export const parseConcurrency = (value: unknown): number => {
+	const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+	if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 1) {
+		throw new Error(
+			`Invalid concurrency "${String(value)}". Expected a positive integer.`,
+		);
+	}
+
+	return parsed;
+};
+
+/**
+ * Creates a pool of at most `concurrency` workers draining one shared job
+ * list. A scan routes the walk and the sizing of every candidate through one
+ * queue, so together they never hold more than `concurrency` directory handles
+ * or pending `lstat` calls. Jobs run newest first.
+ */
+export const createWorkQueue = (
+	concurrency = DEFAULT_SCAN_CONCURRENCY,
+): WorkQueue => {
+	const limit = parseConcurrency(concurrency);
+	const jobs: Array<() => Promise<void>> = [];
+	let workers = 0;
+
+	const work = async (): Promise<void> => {
+		while (jobs.length > 0) {
+			const job = jobs.pop()!;
+			try {
+				await job();
+			} catch {}
+		}
+
+		workers--;
+	};
+
+	return {
+		concurrency: limit,
+		add(job) {
+			jobs.push(job);
+			if (workers < limit) {
+				workers++;
+				void work();
+			}
+		},
+	};
+};
+
+/**
+ * Walks a tree on `queue` without recursion: `visit` handles one node and
+ * returns its children. Nodes wait on a stack of the walk's own, drained by up
+ * to `queue.concurrency` jobs, so a node costs no job of its own and the walk
+ * stays depth-first. Resolves once every node is visited, or rejects with the
+ * first error `visit` throws.
+ */
+export const walkTree = async <T>(
+	queue: WorkQueue,
+	roots: readonly T[],
+	visit: (node: T) => Promise<readonly T[]>,
+): Promise<void> =>
+	new Promise<void>((resolve, reject) => {
+		const nodes = [...roots];
+		let visiting = 0;
+		let drainers = 0;
+		let failed = false;
+
+		const drain = async (): Promise<void> => {
+			while (nodes.length > 0 && !failed) {
+				const node = nodes.pop()!;
+				visiting++;
+				try {
+					const children = await visit(node);
+					for (const child of children) nodes.push(child);
+					spawnDrainers();
+				} catch (error) {
+					failed = true;
+					reject(error);
+				}
+
+				visiting--;
+			}
+
+			drainers--;
+			if (visiting === 0 && nodes.length === 0 && !failed) resolve();
+		};
+
+		const spawnDrainers = (): void => {
+			while (drainers < Math.min(queue.concurrency, visiting + nodes.length)) {
+				drainers++;
+				queue.add(drain);
+			}
+		};
+
+		if (roots.length === 0) {
+			resolve();
+			return;
+		}
+
+		spawnDrainers();
+	});
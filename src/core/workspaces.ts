@@ -1,11 +1,28 @@
 import fs from 'node:fs/promises';
 import type {Dirent} from 'node:fs';
 import path from 'node:path';
+import {readPackageManifest} from './manifest.js';
 import type {
+	ProjectDiscoveryOptions,
+	ProjectRoot,
+	TaskRunner,
 	WorkspaceDiscoveryMode,
+	WorkspaceDiscoveryOptions,
 	WorkspaceDiscoveryResult,
 	WorkspaceDiscoverySource,
 } from './types.js';
+import {
+	createGlobMatcher,
+	expandBraces,
+	isWildcardSegment,
+	normalizeGlobPattern,
+	wildcardToRegex,
+} from './glob.js';
+import {createWorkQueue, walkTree} from './work-queue.js';
+
+// Deep enough for `~/code/<org>/<group>/<repo>` layouts without walking a
+// whole home directory when no project is found early.
+export const DEFAULT_PROJECT_DISCOVERY_DEPTH = 6;
 
 const WORKSPACE_SKIP_DIRS = new Set([
 	'.git',
@@ -14,16 +31,30 @@ const WORKSPACE_SKIP_DIRS = new Set([
 	'node_modules',
 	'.next',
 	'.turbo',
+	'.nx',
 	'.vercel',
+	'.open-next',
+	'.netlify',
+	'.wrangler',
+	'.nuxt',
+	'.svelte-kit',
+	'.astro',
+	'.expo',
+	'.parcel-cache',
 	'coverage',
 	'.swc',
 	'.docusaurus',
 	'storybook-static',
 ]);
 
-const HEURISTIC_WORKSPACE_ROOTS = ['apps', 'packages', 'services', 'libs'];
+const TASK_RUNNER_MANIFESTS: ReadonlyArray<[TaskRunner, string]> = [
+	['turbo', 'turbo.json'],
+	['nx', 'nx.json'],
+	['rush', 'rush.json'],
+	['lerna', 'lerna.json'],
+];
 
-const toPosixPath = (value: string): string => value.replaceAll('\\', '/');
+const HEURISTIC_WORKSPACE_ROOTS = ['apps', 'packages', 'services', 'libs'];
 
 const isRecord = (value: unknown): value is Record<string, unknown> =>
 	Boolean(value) && typeof value === 'object' && !Array.isArray(value);
@@ -38,40 +69,10 @@ const readJson = async (filePath: string): Promise<Record<string, unknown>> => {
 	}
 };
 
-const normalizeWorkspacePattern = (value: string): string | null => {
-	const raw = value.trim();
-	if (!raw) return null;
-
-	const isNegated = raw.startsWith('!');
-	let normalized = isNegated ? raw.slice(1).trim() : raw;
-	if (!normalized) return null;
-
-	normalized = toPosixPath(normalized);
-	normalized = normalized.replace(/^\.\/+/, '');
-	normalized = normalized.replace(/^\/+/, '');
-	normalized = normalized.replace(/\/+/g, '/');
-	normalized = normalized.replace(/\/+$/, '');
-	if (!normalized || normalized === '.') return null;
-
-	normalized = path.posix.normalize(normalized);
-	if (!normalized || normalized === '.') return null;
-
-	if (
-		normalized === '..' ||
-		normalized.startsWith('../') ||
-		normalized.includes('/../') ||
-		/^[A-Za-z]:\//.test(normalized)
-	) {
-		return null;
-	}
-
-	return isNegated ? `!${normalized}` : normalized;
-};
-
 const toUniqueNormalizedPatterns = (patterns: readonly string[]): string[] => {
 	const unique = new Set<string>();
-	for (const pattern of patterns) {
-		const normalized = normalizeWorkspacePattern(pattern);
+	for (const pattern of patterns.flatMap(entry => expandBraces(entry))) {
+		const normalized = normalizeGlobPattern(pattern);
 		if (normalized) unique.add(normalized);
 	}
 	return [...unique];
@@ -85,79 +86,6 @@ const listDirectories = async (directory: string): Promise<Dirent[]> => {
 	}
 };
 
-const isWildcardSegment = (segment: string): boolean =>
-	segment.includes('*') || segment.includes('?');
-
-const escapeRegex = (value: string): string =>
-	value.replaceAll(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-const wildcardToRegex = (segment: string): RegExp =>
-	new RegExp(
-		`^${escapeRegex(segment).replaceAll('\\*', '[^/]*').replaceAll('\\?', '[^/]')}$`,
-	);
-
-const segmentMatchesPattern = (
-	segment: string,
-	patternSegment: string,
-): boolean => wildcardToRegex(patternSegment).test(segment);
-
-const matchPathSegments = (
-	pathSegments: readonly string[],
-	patternSegments: readonly string[],
-	pathIndex = 0,
-	patternIndex = 0,
-): boolean => {
-	if (patternIndex >= patternSegments.length) {
-		return pathIndex >= pathSegments.length;
-	}
-
-	const currentPattern = patternSegments[patternIndex];
-	if (currentPattern === '**') {
-		if (patternIndex === patternSegments.length - 1) return true;
-		for (let index = pathIndex; index <= pathSegments.length; index += 1) {
-			if (
-				matchPathSegments(
-					pathSegments,
-					patternSegments,
-					index,
-					patternIndex + 1,
-				)
-			) {
-				return true;
-			}
-		}
-		return false;
-	}
-
-	if (pathIndex >= pathSegments.length) return false;
-	if (!segmentMatchesPattern(pathSegments[pathIndex], currentPattern)) {
-		return false;
-	}
-
-	return matchPathSegments(
-		pathSegments,
-		patternSegments,
-		pathIndex + 1,
-		patternIndex + 1,
-	);
-};
-
-const matchesWorkspacePattern = (
-	relativePath: string,
-	pattern: string,
-): boolean => {
-	const normalizedRelativePath = toPosixPath(relativePath)
-		.replace(/^\.\/+/, '')
-		.replace(/^\/+/, '')
-		.replace(/\/+/g, '/')
-		.replace(/\/+$/, '');
-	if (!normalizedRelativePath) return false;
-
-	const pathSegments = normalizedRelativePath.split('/').filter(Boolean);
-	const patternSegments = pattern.split('/').filter(Boolean);
-	return matchPathSegments(pathSegments, patternSegments);
-};
-
 const hasPackageJson = async (directory: string): Promise<boolean> => {
 	try {
 		const stat = await fs.stat(path.join(directory, 'package.json'));
@@ -170,8 +98,9 @@ const hasPackageJson = async (directory: string): Promise<boolean> => {
 const expandWorkspacePattern = async (
 	rootDirectory: string,
 	pattern: string,
+	signal?: AbortSignal,
 ): Promise<string[]> => {
-	const normalizedPattern = normalizeWorkspacePattern(pattern);
+	const normalizedPattern = normalizeGlobPattern(pattern);
 	if (!normalizedPattern || normalizedPattern.startsWith('!')) return [];
 
 	const results = new Set<string>();
@@ -181,6 +110,7 @@ const expandWorkspacePattern = async (
 		directory: string,
 		segmentIndex: number,
 	): Promise<void> => {
+		if (signal?.aborted) return;
 		if (segmentIndex >= segments.length) {
 			if (await hasPackageJson(directory)) {
 				results.add(path.resolve(directory));
@@ -329,6 +259,7 @@ const toContainedRealpath = async (
 const collectManifestWorkspaceDirectories = async (
 	rootDirectory: string,
 	manifestPatterns: readonly string[],
+	signal?: AbortSignal,
 ): Promise<string[]> => {
 	if (manifestPatterns.length === 0) return [];
 
@@ -341,9 +272,11 @@ const collectManifestWorkspaceDirectories = async (
 
 	const discoveredDirectories = new Set<string>();
 	for (const includePattern of includePatterns) {
+		if (signal?.aborted) break;
 		const directories = await expandWorkspacePattern(
 			rootDirectory,
 			includePattern,
+			signal,
 		);
 		for (const directory of directories) {
 			discoveredDirectories.add(path.resolve(directory));
@@ -354,30 +287,25 @@ const collectManifestWorkspaceDirectories = async (
 		return [...discoveredDirectories];
 	}
 
-	const filtered = [...discoveredDirectories].filter(directory => {
-		const relativeDirectory = toPosixPath(
-			path.relative(rootDirectory, directory),
-		);
-		for (const excludePattern of excludePatterns) {
-			if (matchesWorkspacePattern(relativeDirectory, excludePattern)) {
-				return false;
-			}
-		}
-		return true;
-	});
-
-	return filtered;
+	// Package managers apply exclusions regardless of their position.
+	const isExcluded = createGlobMatcher(excludePatterns);
+	return [...discoveredDirectories].filter(
+		directory => !isExcluded(path.relative(rootDirectory, directory)),
+	);
 };
 
 const collectHeuristicWorkspaceDirectories = async (
 	rootDirectory: string,
+	signal?: AbortSignal,
 ): Promise<string[]> => {
 	const discovered = new Set<string>();
 
 	for (const heuristicRoot of HEURISTIC_WORKSPACE_ROOTS) {
+		if (signal?.aborted) break;
 		const absoluteRoot = path.join(rootDirectory, heuristicRoot);
 		const entries = await listDirectories(absoluteRoot);
 		for (const entry of entries) {
+			if (signal?.aborted) break;
 			if (!entry.isDirectory()) continue;
 			if (WORKSPACE_SKIP_DIRS.has(entry.name)) continue;
 			const directory = path.join(absoluteRoot, entry.name);
@@ -387,12 +315,13 @@ const collectHeuristicWorkspaceDirectories = async (
 		}
 	}
 
-	if (discovered.size > 0) {
+	if (discovered.size > 0 || signal?.aborted) {
 		return [...discovered];
 	}
 
 	const topLevelEntries = await listDirectories(rootDirectory);
 	for (const entry of topLevelEntries) {
+		if (signal?.aborted) break;
 		if (!entry.isDirectory()) continue;
 		if (WORKSPACE_SKIP_DIRS.has(entry.name)) continue;
 		const directory = path.join(rootDirectory, entry.name);
@@ -407,6 +336,7 @@ const collectHeuristicWorkspaceDirectories = async (
 const discoverWorkspaceDirectoriesByMode = async (
 	rootDirectory: string,
 	mode: WorkspaceDiscoveryMode,
+	signal?: AbortSignal,
 ): Promise<{
 	source: WorkspaceDiscoverySource;
 	workspaceDirectories: string[];
@@ -419,6 +349,7 @@ const discoverWorkspaceDirectoriesByMode = async (
 		const manifestDirectories = await collectManifestWorkspaceDirectories(
 			rootDirectory,
 			manifestData.patterns,
+			signal,
 		);
 		return {
 			source: manifestDirectories.length > 0 ? 'manifest' : 'none',
@@ -429,8 +360,10 @@ const discoverWorkspaceDirectoriesByMode = async (
 	}
 
 	if (mode === 'heuristic-only') {
-		const heuristicDirectories =
-			await collectHeuristicWorkspaceDirectories(rootDirectory);
+		const heuristicDirectories = await collectHeuristicWorkspaceDirectories(
+			rootDirectory,
+			signal,
+		);
 		return {
 			source: heuristicDirectories.length > 0 ? 'heuristic' : 'none',
 			workspaceDirectories: heuristicDirectories,
@@ -442,18 +375,21 @@ const discoverWorkspaceDirectoriesByMode = async (
 	const manifestDirectories = await collectManifestWorkspaceDirectories(
 		rootDirectory,
 		manifestData.patterns,
+		signal,
 	);
-	if (manifestDirectories.length > 0) {
+	if (manifestDirectories.length > 0 || signal?.aborted) {
 		return {
-			source: 'manifest',
+			source: manifestDirectories.length > 0 ? 'manifest' : 'none',
 			workspaceDirectories: manifestDirectories,
 			manifestPatterns: manifestData.patterns,
 			hasManifest: manifestData.hasManifest,
 		};
 	}
 
-	const heuristicDirectories =
-		await collectHeuristicWorkspaceDirectories(rootDirectory);
+	const heuristicDirectories = await collectHeuristicWorkspaceDirectories(
+		rootDirectory,
+		signal,
+	);
 	return {
 		source: heuristicDirectories.length > 0 ? 'heuristic' : 'none',
 		workspaceDirectories: heuristicDirectories,
@@ -462,9 +398,14 @@ const discoverWorkspaceDirectoriesByMode = async (
 	};
 };
 
+/**
+ * Finds the workspace packages below `rootDirectory`. When `signal` aborts,
+ * the directories found so far are returned with `aborted` set.
+ */
 export const discoverWorkspaces = async (
 	rootDirectory: string,
 	mode: WorkspaceDiscoveryMode = 'manifest-fallback',
+	{signal}: WorkspaceDiscoveryOptions = {},
 ): Promise<WorkspaceDiscoveryResult> => {
 	const resolvedRootDirectory = path.resolve(rootDirectory);
 	const rootRealpath = await fs
@@ -474,6 +415,7 @@ export const discoverWorkspaces = async (
 	const discovered = await discoverWorkspaceDirectoriesByMode(
 		resolvedRootDirectory,
 		mode,
+		signal,
 	);
 
 	const uniqueDirectories = new Set<string>();
@@ -492,5 +434,94 @@ export const discoverWorkspaces = async (
 		source: discovered.source,
 		manifestPatterns: discovered.manifestPatterns,
 		hasManifest: discovered.hasManifest,
+		aborted: signal?.aborted ?? false,
 	};
 };
+
+export const detectTaskRunners = async (
+	rootDirectory: string,
+): Promise<Set<TaskRunner>> => {
+	const detected = await Promise.all(
+		TASK_RUNNER_MANIFESTS.map(async ([taskRunner, manifest]) => {
+			try {
+				const stat = await fs.stat(path.join(rootDirectory, manifest));
+				return stat.isFile() ? taskRunner : null;
+			} catch {
+				return null;
+			}
+		}),
+	);
+
+	return new Set(
+		detected.filter((taskRunner): taskRunner is TaskRunner =>
+			Boolean(taskRunner),
+		),
+	);
+};
+
+const detectProjectRoot = async (
+	directory: string,
+): Promise<ProjectRoot | null> => {
+	const [{hasManifest}, manifest] = await Promise.all([
+		getManifestWorkspacePatterns(directory),
+		readPackageManifest(directory),
+	]);
+	const kind = hasManifest
+		? 'workspace'
+		: manifest?.dependencies.has('next')
+			? 'next'
+			: null;
+	if (!kind) return null;
+
+	return {
+		path: directory,
+		kind,
+		...(manifest?.name ? {name: manifest.name} : {}),
+	};
+};
+
+/**
+ * Finds the project roots at or below `directory` for sweep mode. The search
+ * stops at each root, whose own scan covers its workspaces, goes at most
+ * `maxDepth` levels down, and never enters hidden directories or the folders
+ * workspace discovery skips. Roots come back sorted by path; an aborted search
+ * returns those found so far.
+ */
+export const findProjectRoots = async (
+	directory: string,
+	{
+		signal,
+		concurrency,
+		maxDepth = DEFAULT_PROJECT_DISCOVERY_DEPTH,
+	}: ProjectDiscoveryOptions = {},
+): Promise<ProjectRoot[]> => {
+	const roots: ProjectRoot[] = [];
+	await walkTree(
+		createWorkQueue(concurrency),
+		[{directory: path.resolve(directory), depth: 0}],
+		async ({directory: current, depth}) => {
+			if (signal?.aborted) return [];
+			const project = await detectProjectRoot(current);
+			if (project) {
+				roots.push(project);
+				return [];
+			}
+
+			if (depth >= maxDepth) return [];
+			const entries = await listDirectories(current);
+			return entries
+				.filter(
+					entry =>
+						entry.isDirectory() &&
+						!entry.name.startsWith('.') &&
+						!WORKSPACE_SKIP_DIRS.has(entry.name),
+				)
+				.map(entry => ({
+					directory: path.join(current, entry.name),
+					depth: depth + 1,
+				}));
+		},
+	);
+
+	return roots.sort((left, right) => left.path.localeCompare(right.path));
+};
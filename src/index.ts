@@ -3,6 +3,7 @@ import process from 'node:process';
 import {
 	cancel,
 	confirm,
+	groupMultiselect,
 	intro,
 	isCancel,
 	log,
@@ -14,18 +15,29 @@ import {
 	text,
 } from '@clack/prompts';
 import {
+	SAFE_CANDIDATE_TYPES,
 	buildCleanupScopeLabel,
 	resolveCandidateType,
 	type CandidateType,
 } from './core/candidates.js';
 import {selectAlwaysDeletePaths} from './core/config.js';
-import {deleteItems, getTotalSize} from './core/delete.js';
-import {human, timeAgo} from './core/format.js';
+import {deleteItems, getTotalSize, isMostlyHardLinked} from './core/delete.js';
+import {
+	formatDisplayPath,
+	formatSkippedSymlink,
+	human,
+	timeAgo,
+} from './core/format.js';
+import {findTrackedFilesByRoot} from './core/git-index.js';
 import type {
 	CleanupScope,
+	Framework,
+	NodeModulesTag,
+	ProjectRoot,
 	PruneConfig,
 	RuntimeScanOptions,
 	ScanItem,
+	SkippedSymlink,
 } from './core/types.js';
 
 type SortMode = 'size' | 'age' | 'path';
@@ -35,6 +47,7 @@ type CleanupProfile =
 	| 'config-default'
 	| 'safe'
 	| 'deps-only'
+	| 'stale-deps'
 	| 'cold-storage'
 	| 'custom';
 
@@ -42,9 +55,22 @@ interface InteractiveCandidate {
 	path: string;
 	relPath: string;
 	size: number;
+	diskUsage: number;
+	reclaimableSize: number;
 	mtime: Date | null;
 	candidateType: CandidateType;
 	cleanupScope: CleanupScope;
+	parentRelPath?: string;
+	framework?: Framework;
+	gitIgnored?: boolean;
+	projectRoot?: string;
+	packageName?: string;
+	nextVersion?: string;
+	buildId?: string;
+	buildTime?: Date | null;
+	workspaceRelPath?: string;
+	protected?: boolean;
+	nodeModulesTags?: NodeModulesTag[];
 }
 
 export interface RuntimeProps {
@@ -53,6 +79,10 @@ export interface RuntimeProps {
 	config?: PruneConfig;
 	scanOptions?: RuntimeScanOptions;
 	items: readonly ScanItem[];
+	/** Symlinks the scan reported instead of following (`symlinks: report`). */
+	skippedSymlinks?: readonly SkippedSymlink[];
+	/** Swept projects (`--projects`), each with the config it was scanned with. */
+	projects?: ReadonlyArray<ProjectRoot & {config: PruneConfig}>;
 }
 
 const SORT_OPTIONS: Array<{value: SortMode; label: string; hint: string}> = [
@@ -74,13 +104,18 @@ const CLEANUP_PROFILE_OPTIONS: Array<{
 	{
 		value: 'safe',
 		label: 'Safe artifacts only',
-		hint: 'Build outputs + optional unused assets',
+		hint: 'Build outputs, tool caches, test reports + optional unused assets',
 	},
 	{
 		value: 'deps-only',
 		label: 'Dependencies and caches',
 		hint: 'node_modules + package-manager caches',
 	},
+	{
+		value: 'stale-deps',
+		label: 'Stale dependencies only',
+		hint: 'node_modules that are stale, orphaned or from another package manager',
+	},
 	{
 		value: 'cold-storage',
 		label: 'Cold storage (aggressive)',
@@ -120,6 +155,8 @@ const TYPE_MODE_LABELS: Record<CandidateType, string> = {
 	asset: 'Unused assets',
 	node_modules: 'node_modules',
 	'pm-cache': 'Package-manager caches',
+	'task-cache': 'Task-runner caches',
+	'test-output': 'Test-runner outputs',
 };
 
 const CANDIDATE_TYPE_LABELS: Record<CandidateType, string> = {
@@ -127,6 +164,8 @@ const CANDIDATE_TYPE_LABELS: Record<CandidateType, string> = {
 	asset: 'asset',
 	node_modules: 'node_modules',
 	'pm-cache': 'pm-cache',
+	'task-cache': 'task-cache',
+	'test-output': 'test-output',
 };
 
 const DEFAULT_PROFILE_TYPES: CandidateType[] = [
@@ -134,6 +173,8 @@ const DEFAULT_PROFILE_TYPES: CandidateType[] = [
 	'asset',
 	'node_modules',
 	'pm-cache',
+	'task-cache',
+	'test-output',
 ];
 
 const normalizeMtime = (value: unknown): Date | null => {
@@ -151,17 +192,36 @@ const normalizeMtime = (value: unknown): Date | null => {
 	return null;
 };
 
+const toFiniteSize = (value: unknown): number =>
+	typeof value === 'number' && Number.isFinite(value) ? value : 0;
+
 const toInteractiveCandidate = (
 	item: ScanItem,
 	cwd: string,
 ): InteractiveCandidate => ({
 	path: item.path,
-	relPath: path.relative(cwd, item.path) || '.',
-	size:
-		typeof item.size === 'number' && Number.isFinite(item.size) ? item.size : 0,
+	relPath: formatDisplayPath(item.path, cwd),
+	size: toFiniteSize(item.size),
+	diskUsage: toFiniteSize(item.diskUsage),
+	reclaimableSize: toFiniteSize(item.reclaimableSize ?? item.size),
 	mtime: normalizeMtime(item.mtime),
 	candidateType: resolveCandidateType(item),
 	cleanupScope: item.cleanupScope ?? 'project',
+	...(item.parentPath
+		? {parentRelPath: path.relative(cwd, item.parentPath) || '.'}
+		: {}),
+	...(item.framework ? {framework: item.framework} : {}),
+	...(item.gitIgnored === undefined ? {} : {gitIgnored: item.gitIgnored}),
+	...(item.projectRoot ? {projectRoot: item.projectRoot} : {}),
+	...(item.packageName ? {packageName: item.packageName} : {}),
+	...(item.nextVersion ? {nextVersion: item.nextVersion} : {}),
+	...(item.buildId ? {buildId: item.buildId} : {}),
+	...(item.buildTime ? {buildTime: normalizeMtime(item.buildTime)} : {}),
+	...(item.workspaceDirectory
+		? {workspaceRelPath: path.relative(cwd, item.workspaceDirectory) || '.'}
+		: {}),
+	...(item.protected ? {protected: true} : {}),
+	...(item.nodeModulesTags ? {nodeModulesTags: item.nodeModulesTags} : {}),
 });
 
 const sortCandidates = (
@@ -181,12 +241,39 @@ const sortCandidates = (
 	return next;
 };
 
+// Granular sub-candidates stay adjacent, at the position of their first member,
+// so they read as one group under the build directory they were split from.
+const groupNestedCandidates = (
+	items: readonly InteractiveCandidate[],
+): InteractiveCandidate[] => {
+	const grouped: InteractiveCandidate[] = [];
+	const emittedParents = new Set<string>();
+	for (const item of items) {
+		if (!item.parentRelPath) {
+			grouped.push(item);
+			continue;
+		}
+
+		if (emittedParents.has(item.parentRelPath)) continue;
+		emittedParents.add(item.parentRelPath);
+		grouped.push(
+			...items.filter(
+				candidate => candidate.parentRelPath === item.parentRelPath,
+			),
+		);
+	}
+
+	return grouped;
+};
+
 const countByType = (items: readonly InteractiveCandidate[]): TypeCounts => {
 	const counts: TypeCounts = {
 		artifact: 0,
 		asset: 0,
 		node_modules: 0,
 		'pm-cache': 0,
+		'task-cache': 0,
+		'test-output': 0,
 	};
 
 	for (const item of items) {
@@ -202,6 +289,7 @@ const countByScope = (
 	const counts: Record<CleanupScope, number> = {
 		project: 0,
 		workspace: 0,
+		global: 0,
 	};
 	for (const item of items) {
 		counts[item.cleanupScope]++;
@@ -215,12 +303,14 @@ const formatTypeCounts = (counts: TypeCounts): string => {
 		`asset ${counts.asset}`,
 		`node_modules ${counts.node_modules}`,
 		`pm-cache ${counts['pm-cache']}`,
+		`task-cache ${counts['task-cache']}`,
+		`test-output ${counts['test-output']}`,
 	];
 	return sections.join(', ');
 };
 
 const formatScopeCounts = (counts: Record<CleanupScope, number>): string =>
-	`project ${counts.project}, workspace ${counts.workspace}`;
+	`project ${counts.project}, workspace ${counts.workspace}${counts.global > 0 ? `, global ${counts.global}` : ''}`;
 
 const truncateMiddle = (value: string, maxLength: number): string => {
 	if (maxLength <= 3 || value.length <= maxLength) return value;
@@ -229,11 +319,64 @@ const truncateMiddle = (value: string, maxLength: number): string => {
 	return `${value.slice(0, headLength)}...${value.slice(-tailLength)}`;
 };
 
+const formatLabel = (item: InteractiveCandidate): string => {
+	if (!item.parentRelPath) return truncateMiddle(item.relPath, 72);
+
+	const childPath = path.relative(item.parentRelPath, item.relPath);
+	return truncateMiddle(`${item.parentRelPath} › ${childPath}`, 72);
+};
+
+const MAX_BUILD_ID_SHOWN = 12;
+
+// The package name says which app a candidate belongs to; an unnamed
+// workspace falls back to its directory.
+const formatProjectInfo = (item: InteractiveCandidate): string => {
+	const owner = item.packageName ?? item.workspaceRelPath;
+	const parts = [
+		...(owner ? [owner] : []),
+		...(item.nextVersion ? [`next ${item.nextVersion}`] : []),
+		...(item.buildId
+			? [
+					`build ${truncateMiddle(item.buildId, MAX_BUILD_ID_SHOWN)}${item.buildTime ? ` ${timeAgo(item.buildTime)}` : ''}`,
+				]
+			: []),
+	];
+	return parts.map(part => ` | ${part}`).join('');
+};
+
 const formatHint = (item: InteractiveCandidate): string => {
 	const age = item.mtime ? timeAgo(item.mtime) : 'unknown age';
-	return `${human(item.size)} | ${age} | ${CANDIDATE_TYPE_LABELS[item.candidateType]} | ${item.cleanupScope}`;
+	const framework = item.framework ? ` | ${item.framework}` : '';
+	const nodeModulesTags = item.nodeModulesTags
+		? ` | ${item.nodeModulesTags.join(', ')}`
+		: '';
+	// Outside a git repository there is nothing to warn about.
+	const gitWarning =
+		item.gitIgnored === false ? ' | ⚠️  not ignored by git' : '';
+	const hardLinkNote = isMostlyHardLinked(item)
+		? ` (frees ${human(item.reclaimableSize)}, hardlinked elsewhere)`
+		: '';
+	return `${human(item.size)}${hardLinkNote} | ${age} | ${CANDIDATE_TYPE_LABELS[item.candidateType]} | ${item.cleanupScope}${formatProjectInfo(item)}${framework}${nodeModulesTags}${gitWarning}`;
 };
 
+const MAX_TRACKED_FILES_SHOWN = 5;
+
+const formatTrackedFiles = (
+	trackedFiles: ReadonlyMap<string, readonly string[]>,
+	cwd: string,
+): string =>
+	[...trackedFiles]
+		.flatMap(([candidatePath, files]) => [
+			`${path.relative(cwd, candidatePath) || '.'} (${files.length} tracked)`,
+			...files
+				.slice(0, MAX_TRACKED_FILES_SHOWN)
+				.map(file => `  ${path.relative(cwd, file)}`),
+			...(files.length > MAX_TRACKED_FILES_SHOWN
+				? [`  … ${files.length - MAX_TRACKED_FILES_SHOWN} more`]
+				: []),
+		])
+		.join('\n');
+
 const findSelectedCandidates = (
 	candidates: readonly InteractiveCandidate[],
 	selectedPaths: readonly string[],
@@ -258,11 +401,14 @@ const resolvePresetTypes = (
 	availableTypes: ReadonlySet<CandidateType>,
 ): Set<CandidateType> => {
 	if (profile === 'safe') {
-		return intersectTypes(availableTypes, ['artifact', 'asset']);
+		return intersectTypes(availableTypes, SAFE_CANDIDATE_TYPES);
 	}
 	if (profile === 'deps-only') {
 		return intersectTypes(availableTypes, ['node_modules', 'pm-cache']);
 	}
+	if (profile === 'stale-deps') {
+		return intersectTypes(availableTypes, ['node_modules']);
+	}
 	return intersectTypes(availableTypes, DEFAULT_PROFILE_TYPES);
 };
 
@@ -288,41 +434,62 @@ const filterCandidates = (
 	});
 };
 
-export const runInteractiveApp = async ({
-	cwd = process.cwd(),
-	dryRun = false,
-	config,
-	scanOptions,
-	items,
-}: RuntimeProps): Promise<void> => {
-	intro('next-prune');
-
-	const candidates = items.map(item => toInteractiveCandidate(item, cwd));
-	if (candidates.length === 0) {
-		log.info('No prune candidates found in this scope.');
-		outro('Nothing to clean up.');
-		return;
+const formatProjectTotals = (
+	projects: readonly ProjectRoot[],
+	candidates: readonly InteractiveCandidate[],
+	cwd: string,
+): string =>
+	projects
+		.map(project => {
+			const projectCandidates = candidates.filter(
+				candidate => candidate.projectRoot === project.path,
+			);
+			return {
+				label: path.relative(cwd, project.path) || '.',
+				count: projectCandidates.length,
+				size: getTotalSize(projectCandidates),
+			};
+		})
+		.sort((left, right) => right.size - left.size)
+		.map(
+			({label, count, size}) =>
+				`${human(size).padStart(6)}  ${label} (${count} candidates)`,
+		)
+		.join('\n');
+
+const groupByProject = <T>(
+	candidates: readonly InteractiveCandidate[],
+	cwd: string,
+	toOption: (candidate: InteractiveCandidate) => T,
+): Record<string, T[]> => {
+	const groups: Record<string, T[]> = {};
+	for (const candidate of candidates) {
+		const label = candidate.projectRoot
+			? path.relative(cwd, candidate.projectRoot) || '.'
+			: '.';
+		(groups[label] ??= []).push(toOption(candidate));
 	}
 
-	const typeCounts = countByType(candidates);
-	const scopeCounts = countByScope(candidates);
-	const scopeLabel = buildCleanupScopeLabel({
-		cleanupScope: scanOptions?.cleanupScope,
-		includeNodeModules: scanOptions?.includeNodeModules,
-		includeProjectLocalPmCaches: scanOptions?.includeProjectLocalPmCaches,
-	});
-	note(
-		[
-			`Path: ${cwd}`,
-			`Scope: ${scopeLabel}`,
-			`Found: ${candidates.length} candidates (${human(getTotalSize(candidates))})`,
-			`Types: ${formatTypeCounts(typeCounts)}`,
-			`Scopes: ${formatScopeCounts(scopeCounts)}`,
-			dryRun ? 'Mode: dry-run' : 'Mode: apply on confirmation',
-		].join('\n'),
-		'Scan summary',
-	);
+	return groups;
+};
 
+interface ProjectSelectionOptions {
+	cwd: string;
+	config?: PruneConfig;
+	projects?: RuntimeProps['projects'];
+	/** Lets the picker be left empty, when global caches are offered next. */
+	optional: boolean;
+}
+
+/**
+ * Narrows project and workspace candidates by profile, scope and path, then
+ * lets the user pick. Resolves to `undefined` once the flow has ended.
+ */
+const selectProjectCandidates = async (
+	candidates: readonly InteractiveCandidate[],
+	{cwd, config, projects, optional}: ProjectSelectionOptions,
+): Promise<InteractiveCandidate[] | undefined> => {
+	const typeCounts = countByType(candidates);
 	const profile = await select<CleanupProfile>({
 		message: 'Choose cleanup profile:',
 		initialValue: 'config-default',
@@ -330,11 +497,16 @@ export const runInteractiveApp = async ({
 	});
 	if (isCancel(profile)) {
 		cancel('Operation cancelled.');
-		return;
+		return undefined;
 	}
 
+	// The stale preset only considers `node_modules` the scan tagged.
+	const profileCandidates =
+		profile === 'stale-deps'
+			? candidates.filter(candidate => candidate.nodeModulesTags)
+			: candidates;
 	const availableTypes = new Set(
-		candidates.map(candidate => candidate.candidateType),
+		profileCandidates.map(candidate => candidate.candidateType),
 	);
 	let activeTypes =
 		profile === 'custom'
@@ -353,7 +525,7 @@ export const runInteractiveApp = async ({
 		});
 		if (isCancel(selectedTypes)) {
 			cancel('Operation cancelled.');
-			return;
+			return undefined;
 		}
 		activeTypes = new Set(selectedTypes);
 	}
@@ -364,11 +536,11 @@ export const runInteractiveApp = async ({
 			'Tip',
 		);
 		outro('No changes were made.');
-		return;
+		return undefined;
 	}
 
 	const availableScopes = new Set(
-		candidates.map(candidate => candidate.cleanupScope),
+		profileCandidates.map(candidate => candidate.cleanupScope),
 	);
 	let scopeMode: ScopeMode = 'all';
 	if (availableScopes.size === 1) {
@@ -385,7 +557,7 @@ export const runInteractiveApp = async ({
 		});
 		if (isCancel(selectedScopeMode)) {
 			cancel('Operation cancelled.');
-			return;
+			return undefined;
 		}
 		scopeMode = selectedScopeMode;
 	}
@@ -397,10 +569,10 @@ export const runInteractiveApp = async ({
 	});
 	if (isCancel(pathFilterInput)) {
 		cancel('Operation cancelled.');
-		return;
+		return undefined;
 	}
 
-	const filteredCandidates = filterCandidates(candidates, {
+	const filteredCandidates = filterCandidates(profileCandidates, {
 		typeSet: activeTypes,
 		scopeMode,
 		query: pathFilterInput,
@@ -408,7 +580,7 @@ export const runInteractiveApp = async ({
 	if (filteredCandidates.length === 0) {
 		log.warning('No candidates matched the selected filters.');
 		outro('No changes were made.');
-		return;
+		return undefined;
 	}
 	note(
 		[
@@ -427,26 +599,73 @@ export const runInteractiveApp = async ({
 	});
 	if (isCancel(sortBy)) {
 		cancel('Operation cancelled.');
-		return;
+		return undefined;
 	}
 
-	const sortedCandidates = sortCandidates(filteredCandidates, sortBy);
-	const defaultSelections = [
+	const sortedCandidates = groupNestedCandidates(
+		sortCandidates(filteredCandidates, sortBy),
+	);
+	// Each swept project applies its own `alwaysDelete`, relative to its root.
+	const alwaysDeleteSources = projects
+		? projects.map(project => ({
+				root: project.path,
+				patterns: project.config.alwaysDelete,
+				candidates: sortedCandidates.filter(
+					candidate => candidate.projectRoot === project.path,
+				),
+			}))
+		: [
+				{
+					root: cwd,
+					patterns: config?.alwaysDelete ?? [],
+					candidates: sortedCandidates,
+				},
+			];
+	const defaultSelections = alwaysDeleteSources.flatMap(source => [
 		...selectAlwaysDeletePaths(
-			sortedCandidates.map(candidate => ({path: candidate.path})),
-			cwd,
-			config?.alwaysDelete ?? [],
+			source.candidates.map(candidate => ({path: candidate.path})),
+			source.root,
+			source.patterns,
 		),
-	].filter(defaultSelectionPath =>
-		sortedCandidates.some(candidate => candidate.path === defaultSelectionPath),
-	);
+	]);
+
+	const toOption = (candidate: InteractiveCandidate) => ({
+		value: candidate.path,
+		label: formatLabel(candidate),
+		hint: formatHint(candidate),
+	});
+	const selectedPaths = projects
+		? await groupMultiselect<string>({
+				message: 'Select candidates to prune (grouped by project):',
+				required: !optional,
+				initialValues: defaultSelections,
+				options: groupByProject(sortedCandidates, cwd, toOption),
+			})
+		: await multiselect<string>({
+				message: 'Select candidates to prune:',
+				required: !optional,
+				maxItems: 12,
+				initialValues: defaultSelections,
+				options: sortedCandidates.map(toOption),
+			});
+	if (isCancel(selectedPaths)) {
+		cancel('Operation cancelled.');
+		return undefined;
+	}
+
+	return findSelectedCandidates(sortedCandidates, selectedPaths);
+};
 
+// Global caches are shared by every project on the machine, so they get a
+// picker of their own and are never pre-selected.
+const selectGlobalCandidates = async (
+	candidates: readonly InteractiveCandidate[],
+): Promise<InteractiveCandidate[] | undefined> => {
 	const selectedPaths = await multiselect<string>({
-		message: 'Select candidates to prune:',
-		required: true,
-		maxItems: 12,
-		initialValues: defaultSelections,
-		options: sortedCandidates.map(candidate => ({
+		message: 'Select global caches to prune (shared by every project):',
+		required: false,
+		initialValues: [],
+		options: candidates.map(candidate => ({
 			value: candidate.path,
 			label: truncateMiddle(candidate.relPath, 72),
 			hint: formatHint(candidate),
@@ -454,13 +673,88 @@ export const runInteractiveApp = async ({
 	});
 	if (isCancel(selectedPaths)) {
 		cancel('Operation cancelled.');
+		return undefined;
+	}
+
+	return findSelectedCandidates(candidates, selectedPaths);
+};
+
+export const runInteractiveApp = async ({
+	cwd = process.cwd(),
+	dryRun = false,
+	config,
+	scanOptions,
+	items,
+	skippedSymlinks = [],
+	projects,
+}: RuntimeProps): Promise<void> => {
+	intro('next-prune');
+
+	if (skippedSymlinks.length > 0) {
+		note(
+			skippedSymlinks
+				.map(symlink => formatSkippedSymlink(symlink, cwd))
+				.join('\n'),
+			'Skipped symlinks',
+		);
+	}
+
+	const candidates = items.map(item => toInteractiveCandidate(item, cwd));
+	if (candidates.length === 0) {
+		log.info('No prune candidates found in this scope.');
+		outro('Nothing to clean up.');
 		return;
 	}
 
-	const selectedCandidates = findSelectedCandidates(
-		sortedCandidates,
-		selectedPaths,
+	const typeCounts = countByType(candidates);
+	const scopeCounts = countByScope(candidates);
+	const scopeLabel = buildCleanupScopeLabel({
+		cleanupScope: scanOptions?.cleanupScope,
+		includeNodeModules: scanOptions?.includeNodeModules,
+		includeProjectLocalPmCaches: scanOptions?.includeProjectLocalPmCaches,
+	});
+	note(
+		[
+			`Path: ${cwd}`,
+			`Scope: ${scopeLabel}`,
+			`Found: ${candidates.length} candidates (${human(getTotalSize(candidates))})`,
+			`Types: ${formatTypeCounts(typeCounts)}`,
+			`Scopes: ${formatScopeCounts(scopeCounts)}`,
+			...(projects ? [`Projects: ${projects.length}`] : []),
+			dryRun ? 'Mode: dry-run' : 'Mode: apply on confirmation',
+		].join('\n'),
+		'Scan summary',
+	);
+	if (projects) {
+		note(formatProjectTotals(projects, candidates, cwd), 'Projects');
+	}
+
+	const projectCandidates = candidates.filter(
+		candidate => candidate.cleanupScope !== 'global',
+	);
+	const globalCandidates = candidates.filter(
+		candidate => candidate.cleanupScope === 'global',
 	);
+	const selectedProjectCandidates =
+		projectCandidates.length > 0
+			? await selectProjectCandidates(projectCandidates, {
+					cwd,
+					config,
+					projects,
+					optional: globalCandidates.length > 0,
+				})
+			: [];
+	if (!selectedProjectCandidates) return;
+	const selectedGlobalCandidates =
+		globalCandidates.length > 0
+			? await selectGlobalCandidates(globalCandidates)
+			: [];
+	if (!selectedGlobalCandidates) return;
+
+	const selectedCandidates = [
+		...selectedProjectCandidates,
+		...selectedGlobalCandidates,
+	];
 	const selectedSize = getTotalSize(selectedCandidates);
 	if (selectedCandidates.length === 0) {
 		log.warning('No candidates were selected.');
@@ -470,16 +764,17 @@ export const runInteractiveApp = async ({
 
 	const containsProtectedTargets = selectedCandidates.some(
 		candidate =>
+			candidate.protected === true ||
 			candidate.candidateType === 'node_modules' ||
 			candidate.candidateType === 'pm-cache',
 	);
 	if (containsProtectedTargets) {
 		log.warn(
-			'Selection includes node_modules or package-manager caches. Review carefully before deleting.',
+			'Selection includes node_modules, package-manager caches or other protected candidates. Review carefully before deleting.',
 		);
 		const protectedConfirm = await confirm({
 			message:
-				'Continue with protected targets (node_modules/pm-cache) in interactive mode?',
+				'Continue with protected targets (node_modules/pm-cache/protected) in interactive mode?',
 			initialValue: false,
 		});
 		if (isCancel(protectedConfirm)) {
@@ -492,6 +787,47 @@ export const runInteractiveApp = async ({
 		}
 	}
 
+	if (!dryRun) {
+		let trackedFiles: Map<string, string[]> | null;
+		try {
+			trackedFiles = await findTrackedFilesByRoot(
+				selectedCandidates.map(candidate => ({
+					path: candidate.path,
+					root: candidate.projectRoot ?? cwd,
+				})),
+			);
+		} catch (error) {
+			log.warn(
+				`Could not check for git-tracked files: ${String(error instanceof Error ? error.message : error)}`,
+			);
+			trackedFiles = null;
+		}
+
+		if (!trackedFiles || trackedFiles.size > 0) {
+			if (trackedFiles) {
+				note(formatTrackedFiles(trackedFiles, cwd), 'Git-tracked files');
+				log.warn(
+					'Selection includes files tracked by git. Deleting them changes the working tree.',
+				);
+			}
+
+			const trackedConfirm = await confirm({
+				message: trackedFiles
+					? 'Delete candidates that contain git-tracked files?'
+					: 'Continue without the git-tracked file check?',
+				initialValue: false,
+			});
+			if (isCancel(trackedConfirm)) {
+				cancel('Operation cancelled.');
+				return;
+			}
+			if (!trackedConfirm) {
+				outro('No changes were made.');
+				return;
+			}
+		}
+	}
+
 	const shouldProceed = await confirm({
 		message: dryRun
 			? `Run dry-run for ${selectedCandidates.length} selected items (${human(selectedSize)})?`
@@ -521,6 +857,7 @@ export const runInteractiveApp = async ({
 		selectedCandidates.map(candidate => ({
 			path: candidate.path,
 			size: candidate.size,
+			reclaimableSize: candidate.reclaimableSize,
 		})),
 	);
 
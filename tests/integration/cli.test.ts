@@ -17,9 +17,13 @@ const pathExists = async (targetPath: string): Promise<boolean> => {
 	}
 };
 
-const runCli = async (args: string[]) =>
+// Keeps the scan index of every run out of the real cache directory.
+const cacheHome = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-cache-'));
+
+const runCli = async (args: string[], env: NodeJS.ProcessEnv = {}) =>
 	execFileAsync('bun', ['run', 'src/cli.ts', ...args], {
 		cwd: process.cwd(),
+		env: {...process.env, XDG_CACHE_HOME: cacheHome, ...env},
 	});
 
 const toRelativePaths = (stdout: string, cwd: string): Set<string> => {
@@ -53,6 +57,21 @@ test('cli --list prints human output', async () => {
 	expect(stdout.includes('Total:')).toBe(true);
 });
 
+test('cli --list rows show the measure the total sums', async () => {
+	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	const appDir = path.join(temporaryDir, 'app');
+	await fs.mkdir(path.join(appDir, '.next'), {recursive: true});
+	// Ten bytes of file length, but at least a block of disk.
+	await fs.writeFile(path.join(appDir, '.next/build.txt'), 'x'.repeat(10));
+
+	const {stdout} = await runCli(['--list', `--cwd=${appDir}`]);
+
+	const total = /Total: (.+) in 1 items/.exec(stdout)?.[1];
+	const row = stdout.split('\n').find(line => line.includes('.next'));
+	expect(total).toBeDefined();
+	expect(row?.trim().startsWith(`${total!}  `)).toBe(true);
+});
+
 test('cli config neverDelete matches cross-platform path separators', async () => {
 	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
 	const appDir = path.join(temporaryDir, 'app');
@@ -112,6 +131,90 @@ test('cli --yes refuses node_modules/pm-cache deletion without --apply', async (
 	expect(await pathExists(cacheDir)).toBe(true);
 });
 
+test('cli offers extraArtifacts matches and guards protected ones behind --apply', async () => {
+	const appDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	const screenshotsDir = path.join(appDir, 'tmp/screenshots');
+
+	await fs.mkdir(screenshotsDir, {recursive: true});
+	await fs.mkdir(path.join(appDir, 'reports/old'), {recursive: true});
+	await fs.mkdir(path.join(appDir, 'reports/keep'), {recursive: true});
+	await fs.writeFile(
+		path.join(appDir, '.next-prunerc.json'),
+		JSON.stringify({
+			extraArtifacts: [
+				'reports/*',
+				{pattern: 'tmp/screenshots', type: 'test-output', protected: true},
+			],
+			neverDelete: ['reports/keep'],
+		}),
+	);
+
+	const {stdout} = await runCli(['--json', `--cwd=${appDir}`]);
+	const items = JSON.parse(stdout) as Array<{
+		path: string;
+		cleanupType: string;
+		protected?: boolean;
+	}>;
+	expect(items.map(item => path.relative(appDir, item.path)).sort()).toEqual([
+		path.join('reports', 'old'),
+		path.join('tmp', 'screenshots'),
+	]);
+	expect(items.find(item => item.path === screenshotsDir)).toMatchObject({
+		cleanupType: 'test-output',
+		protected: true,
+	});
+
+	let failure: {stderr?: string; code?: number} | undefined;
+	try {
+		await runCli(['--yes', `--cwd=${appDir}`]);
+	} catch (error) {
+		failure = error as {stderr?: string; code?: number};
+	}
+
+	expect(failure?.code).toBe(1);
+	expect(String(failure?.stderr)).toContain('--apply');
+	expect(await pathExists(screenshotsDir)).toBe(true);
+});
+
+test('cli --yes refuses candidates with git-tracked files without --allow-tracked', async () => {
+	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	const appDir = path.join(temporaryDir, 'app');
+	const outDir = path.join(appDir, 'out');
+	const nextDir = path.join(appDir, '.next');
+
+	await fs.mkdir(outDir, {recursive: true});
+	await fs.mkdir(nextDir, {recursive: true});
+	await fs.writeFile(path.join(outDir, 'index.html'), '<html></html>');
+	await execFileAsync('git', ['init', '--quiet'], {cwd: appDir});
+	await execFileAsync('git', ['add', 'out/index.html'], {cwd: appDir});
+
+	let failure:
+		| {
+				stderr?: string;
+				code?: number;
+		  }
+		| undefined;
+
+	try {
+		await runCli(['--yes', `--cwd=${appDir}`]);
+	} catch (error) {
+		failure = error as {stderr?: string; code?: number};
+	}
+
+	expect(failure?.code).toBe(1);
+	expect(String(failure?.stderr)).toContain('out (1 tracked)');
+	expect(await pathExists(outDir)).toBe(true);
+	expect(await pathExists(nextDir)).toBe(true);
+
+	const {stdout} = await runCli([
+		'--yes',
+		'--allow-tracked',
+		`--cwd=${appDir}`,
+	]);
+	expect(stdout.includes('Deleted 2/2')).toBe(true);
+	expect(await pathExists(outDir)).toBe(false);
+});
+
 test('cli --yes --apply deletes node_modules/pm-cache candidates', async () => {
 	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
 	const appDir = path.join(temporaryDir, 'app');
@@ -131,10 +234,10 @@ test('cli --yes --no-node-modules skips node_modules candidates without --apply'
 	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
 	const appDir = path.join(temporaryDir, 'app');
 	const nextDir = path.join(appDir, '.next');
-	const cacheDir = path.join(appDir, 'node_modules/.cache/next');
+	const packageDir = path.join(appDir, 'node_modules/react');
 
 	await fs.mkdir(nextDir, {recursive: true});
-	await fs.mkdir(cacheDir, {recursive: true});
+	await fs.mkdir(packageDir, {recursive: true});
 
 	const {stdout} = await runCli([
 		'--yes',
@@ -144,7 +247,30 @@ test('cli --yes --no-node-modules skips node_modules candidates without --apply'
 
 	expect(stdout.includes('Deleted')).toBe(true);
 	expect(await pathExists(nextDir)).toBe(false);
-	expect(await pathExists(cacheDir)).toBe(true);
+	expect(await pathExists(packageDir)).toBe(true);
+});
+
+test('cli --yes --cleanup-scope=safe reclaims node_modules/.cache without --apply', async () => {
+	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	const appDir = path.join(temporaryDir, 'app');
+	const packageDir = path.join(appDir, 'node_modules/react');
+	const babelCacheDir = path.join(appDir, 'node_modules/.cache/babel-loader');
+	const eslintCacheDir = path.join(appDir, 'node_modules/.cache/eslint');
+
+	await fs.mkdir(packageDir, {recursive: true});
+	await fs.mkdir(babelCacheDir, {recursive: true});
+	await fs.mkdir(eslintCacheDir, {recursive: true});
+
+	const {stdout} = await runCli([
+		'--yes',
+		'--cleanup-scope=safe',
+		`--cwd=${appDir}`,
+	]);
+
+	expect(stdout.includes('Deleted')).toBe(true);
+	expect(await pathExists(babelCacheDir)).toBe(false);
+	expect(await pathExists(eslintCacheDir)).toBe(false);
+	expect(await pathExists(packageDir)).toBe(true);
 });
 
 test('cli --yes --no-pm-caches skips package-manager caches without --apply', async () => {
@@ -319,3 +445,175 @@ test('cli --yes --dry-run does not delete artifacts', async () => {
 	expect(stdout.includes('Dry-run')).toBe(true);
 	expect(await pathExists(nextDir)).toBe(true);
 });
+
+test('cli --list --granular-next nests .next sub-caches under their parent', async () => {
+	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	const appDir = path.join(temporaryDir, 'app');
+	await fs.mkdir(path.join(appDir, '.next/cache/webpack'), {recursive: true});
+	await fs.mkdir(path.join(appDir, '.next/server'), {recursive: true});
+
+	const {stdout} = await runCli([
+		'--list',
+		'--granular-next',
+		`--cwd=${appDir}`,
+	]);
+
+	expect(stdout).toContain('📁 .next\n');
+	expect(stdout).toContain(`└ 📁 ${path.join('cache', 'webpack')}`);
+	expect(stdout).not.toContain('server');
+});
+
+test('cli --json --symlinks=report keeps the array and lists skipped symlinks on stderr', async () => {
+	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	const appDir = path.join(temporaryDir, 'app');
+	await fs.mkdir(path.join(appDir, '.next'), {recursive: true});
+	await fs.mkdir(path.join(temporaryDir, 'shared/.next'), {recursive: true});
+	await fs.symlink(
+		path.join(temporaryDir, 'shared'),
+		path.join(appDir, 'shared'),
+		'dir',
+	);
+
+	const {stdout, stderr} = await runCli([
+		'--json',
+		'--symlinks=report',
+		`--cwd=${appDir}`,
+	]);
+
+	const data = JSON.parse(stdout) as Array<{path: string}>;
+	expect(data.map(item => path.relative(appDir, item.path))).toEqual(['.next']);
+	expect(stderr).toContain('Skipped symlinks (1):');
+	expect(stderr).toContain('shared');
+});
+
+test('cli writes the scan index unless --no-cache is passed', async () => {
+	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	const appDir = path.join(temporaryDir, 'app');
+	const cacheDir = path.join(temporaryDir, 'cache');
+	await fs.mkdir(path.join(appDir, '.next'), {recursive: true});
+
+	const runWithCache = async (args: string[]) =>
+		execFileAsync('bun', ['run', 'src/cli.ts', ...args], {
+			cwd: process.cwd(),
+			env: {...process.env, XDG_CACHE_HOME: cacheDir},
+		});
+
+	await runWithCache(['--json', '--no-cache', `--cwd=${appDir}`]);
+	expect(await pathExists(path.join(cacheDir, 'next-prune'))).toBe(false);
+
+	await runWithCache(['--json', `--cwd=${appDir}`]);
+	expect(await fs.readdir(path.join(cacheDir, 'next-prune'))).toHaveLength(1);
+});
+
+test('cli --projects groups results per project with their own config', async () => {
+	const temporaryDir = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-'));
+	for (const project of ['alpha', 'beta']) {
+		const projectDir = path.join(temporaryDir, project);
+		await fs.mkdir(path.join(projectDir, '.next'), {recursive: true});
+		await fs.mkdir(path.join(projectDir, 'node_modules/.cache/next'), {
+			recursive: true,
+		});
+		await fs.writeFile(
+			path.join(projectDir, 'package.json'),
+			JSON.stringify({name: project, dependencies: {next: '15.0.0'}}),
+		);
+	}
+
+	await fs.writeFile(
+		path.join(temporaryDir, 'beta', '.next-prunerc.json'),
+		JSON.stringify({neverDelete: ['node_modules', 'node_modules/**']}),
+	);
+
+	const {stdout} = await runCli([
+		'--json',
+		'--projects',
+		`--cwd=${temporaryDir}`,
+	]);
+	const data = JSON.parse(stdout) as Array<{
+		path: string;
+		kind: string;
+		totalSize: number;
+		items: Array<{path: string; projectRoot: string}>;
+	}>;
+	const byName = new Map(
+		data.map(project => [path.basename(project.path), project]),
+	);
+
+	expect([...byName.keys()].sort()).toEqual(['alpha', 'beta']);
+	expect(byName.get('alpha')?.kind).toBe('next');
+	expect(
+		toRelativePaths(JSON.stringify(byName.get('alpha')?.items), temporaryDir),
+	).toEqual(
+		new Set([
+			path.join('alpha', '.next'),
+			path.join('alpha', 'node_modules'),
+			path.join('alpha', 'node_modules', '.cache', 'next'),
+		]),
+	);
+	expect(
+		toRelativePaths(JSON.stringify(byName.get('beta')?.items), temporaryDir),
+	).toEqual(new Set([path.join('beta', '.next')]));
+
+	const list = await runCli(['--list', '--projects', `--cwd=${temporaryDir}`]);
+	expect(list.stdout).toContain('📦 alpha [next]');
+	expect(list.stdout).toContain('across 2 projects');
+});
+
+test('cli --cleanup-scope=global offers user-level caches behind --apply', async () => {
+	const home = await fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-home-'));
+	const appDir = path.join(home, 'app');
+	const npmCache = path.join(home, 'npm-cache/_cacache');
+	const pnpmStore = path.join(home, 'pnpm/store');
+	const playwrightCache = path.join(home, '.cache/ms-playwright');
+
+	await fs.mkdir(path.join(appDir, '.next'), {recursive: true});
+	await fs.mkdir(path.join(npmCache, 'index-v5'), {recursive: true});
+	await fs.mkdir(path.join(pnpmStore, 'v3'), {recursive: true});
+	await fs.mkdir(path.join(playwrightCache, 'chromium-1'), {recursive: true});
+	await fs.writeFile(path.join(npmCache, 'index-v5/entry'), 'cached');
+	const env = {
+		HOME: home,
+		XDG_CACHE_HOME: path.join(home, '.cache'),
+		npm_config_cache: path.join(home, 'npm-cache'),
+		PNPM_HOME: path.join(home, 'pnpm'),
+		YARN_CACHE_FOLDER: path.join(home, 'yarn-cache'),
+	};
+
+	const {stdout: defaultOutput} = await runCli(
+		['--json', `--cwd=${appDir}`],
+		env,
+	);
+	expect(toRelativePaths(defaultOutput, appDir)).toEqual(new Set(['.next']));
+
+	const {stdout} = await runCli(
+		['--json', '--cleanup-scope=project,global', `--cwd=${appDir}`],
+		env,
+	);
+	const items = JSON.parse(stdout) as Array<{
+		path: string;
+		cleanupScope: string;
+		protected?: boolean;
+	}>;
+	expect(
+		items
+			.filter(item => item.cleanupScope === 'global')
+			.map(item => item.path)
+			.sort(),
+	).toEqual([npmCache, pnpmStore, playwrightCache].sort());
+	expect(
+		items.every(
+			item => item.cleanupScope !== 'global' || item.protected === true,
+		),
+	).toBe(true);
+
+	let failure: {stderr?: string; code?: number} | undefined;
+	try {
+		await runCli(['--yes', '--cleanup-scope=global', `--cwd=${appDir}`], env);
+	} catch (error) {
+		failure = error as {stderr?: string; code?: number};
+	}
+
+	expect(failure?.code).toBe(1);
+	expect(String(failure?.stderr)).toContain('--apply');
+	expect(await pathExists(npmCache)).toBe(true);
+});
@@ -61,3 +61,15 @@ test('source walk skips noisy directories', async () => {
 		path.join('public', 'assets', 'hero.png'),
 	]);
 });
+
+test('aborted scans report no unused assets', async () => {
+	const cwd = await createTempDirectory();
+	await fs.mkdir(path.join(cwd, 'public'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'public/unused.png'), '');
+
+	const controller = new AbortController();
+	controller.abort();
+
+	expect(await findUnusedAssets(cwd)).toHaveLength(1);
+	expect(await findUnusedAssets(cwd, {signal: controller.signal})).toEqual([]);
+});
@@ -1,12 +1,19 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
 import {expect, test} from 'bun:test';
+import {sizeWithRecursiveWalker} from '../../bench/recursive-walker.js';
 import {
 	DEFAULT_GATE_METRIC,
 	buildBenchmarkReport,
 	evaluateGate,
 	gateMetricRationale,
+	parseConcurrencyLevels,
 	resolveGateMetric,
+	runWalkerComparison,
 	summarizeSamples,
 } from '../../bench/run-bench.js';
+import {getArtifactStats} from '../../src/core/scanner.js';
 
 test('summarizeSamples returns stable aggregate metrics', () => {
 	const summary = summarizeSamples([9, 3, 5, 7, 11]);
@@ -67,3 +74,59 @@ test('buildBenchmarkReport includes scan and cleanup metric runs plus gate metad
 	expect(report.gate?.metric).toBe(DEFAULT_GATE_METRIC);
 	expect(report.gate?.rationale).toContain('not gated');
 });
+
+test('parseConcurrencyLevels dedupes levels and rejects invalid ones', () => {
+	expect(parseConcurrencyLevels('8, 64,8')).toEqual([8, 64]);
+	expect(() => parseConcurrencyLevels('8,0')).toThrow('Invalid concurrency');
+	expect(() => parseConcurrencyLevels(',')).toThrow('comma-separated');
+});
+
+test('buildBenchmarkReport includes the warm-cache scan only when measured', () => {
+	const run = {warmups: 1, iterations: 3, summary: summarizeSamples([5, 7, 9])};
+	const base = {scenario: 'quick' as const, mode: 'run' as const};
+
+	const cold = buildBenchmarkReport({...base, scan: run, cleanup: run});
+	expect(cold.metrics.scanArtifactsWarmCache).toBeUndefined();
+
+	const warm = buildBenchmarkReport({
+		...base,
+		scan: run,
+		cleanup: run,
+		warmCacheScan: {...run, summary: summarizeSamples([1, 2, 3])},
+	});
+	expect(warm.metrics.scanArtifactsWarmCache?.summary.medianMs).toBe(2);
+});
+
+test('runWalkerComparison times both walkers over the same tree', async () => {
+	const rootDir = await fs.mkdtemp(
+		path.join(os.tmpdir(), 'next-prune-bench-walkers-'),
+	);
+	try {
+		await fs.mkdir(path.join(rootDir, 'a', 'b'), {recursive: true});
+		await fs.writeFile(path.join(rootDir, 'a', 'one.js'), 'x'.repeat(3));
+		await fs.writeFile(path.join(rootDir, 'a', 'b', 'two.js'), 'x'.repeat(5));
+		await fs.symlink('one.js', path.join(rootDir, 'a', 'link.js'));
+
+		const queueStats = await getArtifactStats(rootDir);
+		expect(await sizeWithRecursiveWalker(rootDir)).toEqual({
+			size: queueStats.size,
+			fileCount: queueStats.fileCount,
+		});
+
+		const comparison = await runWalkerComparison(rootDir, 2, 0);
+		expect(comparison.recursive.summary.samples).toHaveLength(2);
+		expect(comparison.queue.summary.samples).toHaveLength(2);
+
+		const run = comparison.queue;
+		const report = buildBenchmarkReport({
+			scenario: 'full',
+			mode: 'run',
+			scan: run,
+			cleanup: run,
+			walkerComparison: comparison,
+		});
+		expect(report.metrics.walkerComparison).toBe(comparison);
+	} finally {
+		await fs.rm(rootDir, {recursive: true, force: true});
+	}
+});
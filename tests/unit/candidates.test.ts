@@ -1,6 +1,7 @@
 import {expect, test} from 'bun:test';
 import {
 	buildCleanupScopeLabel,
+	isApplyProtectedCandidate,
 	parseCleanupScope,
 	parseScannerCleanupScopes,
 	resolveAllowedCandidateTypes,
@@ -35,10 +36,30 @@ test('resolveCandidateType classifies cleanup candidates', () => {
 			cleanupType: 'artifact',
 		}),
 	).toBe('artifact');
+
+	expect(
+		resolveCandidateType({
+			path: '/repo/node_modules/.cache/nx',
+			cleanupType: 'task-cache',
+		}),
+	).toBe('task-cache');
+
+	const toolCache = {
+		path: '/repo/node_modules/.cache/babel-loader',
+		cleanupType: 'tool-cache' as const,
+	};
+	expect(resolveCandidateType(toolCache)).toBe('artifact');
+	expect(isApplyProtectedCandidate(toolCache)).toBe(false);
+	expect(isApplyProtectedCandidate({...toolCache, protected: true})).toBe(true);
 });
 
 test('parseCleanupScope supports aliases and validates unknown values', () => {
-	expect([...parseCleanupScope('safe')]).toEqual(['artifact', 'asset']);
+	expect([...parseCleanupScope('safe')]).toEqual([
+		'artifact',
+		'asset',
+		'task-cache',
+		'test-output',
+	]);
 	expect([...parseCleanupScope('node-modules,pm-caches')]).toEqual([
 		'node_modules',
 		'pm-cache',
@@ -48,7 +69,11 @@ test('parseCleanupScope supports aliases and validates unknown values', () => {
 		'asset',
 		'node_modules',
 		'pm-cache',
+		'task-cache',
+		'test-output',
 	]);
+	expect([...parseCleanupScope('task-caches')]).toEqual(['task-cache']);
+	expect([...parseCleanupScope('tests')]).toEqual(['test-output']);
 
 	expect(() => parseCleanupScope('not-a-scope')).toThrow(
 		'Invalid --cleanup-scope value:',
@@ -80,6 +105,11 @@ test('parseScannerCleanupScopes maps all/project/workspace values', () => {
 
 	const allScopes = parseScannerCleanupScopes('all');
 	expect(allScopes?.sort()).toEqual(['project', 'workspace']);
+	expect(parseScannerCleanupScopes('all,global')?.sort()).toEqual([
+		'global',
+		'project',
+		'workspace',
+	]);
 
 	const coldStorageScopes = parseScannerCleanupScopes('cold-storage');
 	expect(coldStorageScopes?.sort()).toEqual(['project', 'workspace']);
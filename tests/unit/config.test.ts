@@ -43,6 +43,49 @@ test('matchesConfigPattern handles normalized prefix matching', () => {
 	expect(matchesConfigPattern('apps/site/.next', './app/')).toBe(false);
 });
 
+test('config patterns support globs, braces and last-match-wins negations', () => {
+	const cwd = '/repo';
+	const items = [
+		'apps/web/.next',
+		'apps/docs/.next',
+		'apps/docs/.next/cache',
+		'packages/ui/storybook-static',
+		'storybook-static',
+		'out',
+		'dist',
+	].map(relativePath => ({path: path.join(cwd, relativePath)}));
+	const toRelativePaths = (paths: Iterable<string>) =>
+		[...paths].map(itemPath => path.relative(cwd, itemPath)).sort();
+
+	expect(
+		toRelativePaths(
+			filterNeverDelete(items, cwd, [
+				'apps/*/.next',
+				'!apps/docs/**',
+				'**/storybook-static',
+				'{out,dist}',
+			]).map(item => item.path),
+		),
+	).toEqual(
+		[
+			path.join('apps', 'docs', '.next'),
+			path.join('apps', 'docs', '.next', 'cache'),
+		].sort(),
+	);
+
+	expect(
+		toRelativePaths(
+			selectAlwaysDeletePaths(items, cwd, [
+				'!apps/web/.next',
+				'apps/**',
+				'!apps/docs',
+			]),
+		),
+	).toEqual([path.join('apps', 'web', '.next')]);
+	expect(matchesConfigPattern('apps/web/.next/cache', 'apps/?eb')).toBe(true);
+	expect(matchesConfigPattern('../outside/out', '**/out')).toBe(false);
+});
+
 test('loadConfig merges package and rc and normalizes arrays', async () => {
 	const cwd = await createTempDirectory();
 
@@ -129,3 +172,56 @@ test('filterNeverDelete and selectAlwaysDeletePaths share path semantics', () =>
 		[...selected].map(itemPath => path.relative(cwd, itemPath)).sort(),
 	).toEqual(['.next', path.join('node_modules', '.cache', 'next')].sort());
 });
+
+test('loadConfig keeps valid detector definitions', async () => {
+	const cwd = await createTempDirectory();
+	await fs.writeFile(
+		path.join(cwd, '.next-prunerc.json'),
+		JSON.stringify({
+			detectors: [
+				{
+					name: 'gatsby',
+					directoryNames: ['.cache', 'public', 'nested/path'],
+					siblingFiles: ['gatsby-config.js'],
+				},
+				{directoryNames: ['.parcel-cache']},
+				{name: 'empty', directoryNames: []},
+				'invalid',
+			],
+		}),
+	);
+
+	const config = await loadConfig(cwd);
+	expect(config.detectors).toEqual([
+		{
+			name: 'gatsby',
+			directoryNames: ['.cache', 'public'],
+			siblingFiles: ['gatsby-config.js'],
+		},
+		{name: 'config:.parcel-cache', directoryNames: ['.parcel-cache']},
+	]);
+});
+
+test('loadConfig keeps valid extraArtifacts entries', async () => {
+	const cwd = await createTempDirectory();
+	await fs.writeFile(
+		path.join(cwd, '.next-prunerc.json'),
+		JSON.stringify({
+			extraArtifacts: [
+				'./tmp/screenshots/',
+				{pattern: '**/.eslintcache', type: 'tool-cache', scope: 'workspace'},
+				{pattern: 'recorded', type: 'unknown', protected: true},
+				{pattern: '../outside'},
+				'!negated',
+				{type: 'artifact'},
+			],
+		}),
+	);
+
+	const config = await loadConfig(cwd);
+	expect(config.extraArtifacts).toEqual([
+		{pattern: 'tmp/screenshots'},
+		{pattern: '**/.eslintcache', type: 'tool-cache', scope: 'workspace'},
+		{pattern: 'recorded', protected: true},
+	]);
+});
@@ -5,6 +5,7 @@ import {expect, test} from 'bun:test';
 import {
 	deleteItems,
 	getTotalSize,
+	isMostlyHardLinked,
 	summarizeDeletionResults,
 } from '../../src/core/delete.js';
 import {human, timeAgo} from '../../src/core/format.js';
@@ -62,3 +63,19 @@ test('getTotalSize and summarizeDeletionResults use normalized numeric sizes', (
 	expect(summary.failureCount).toBe(1);
 	expect(summary.reclaimedBytes).toBe(3);
 });
+
+test('getTotalSize counts reclaimable bytes once for nested items', () => {
+	expect(
+		getTotalSize([
+			{path: '/repo/node_modules', size: 900, reclaimableSize: 100},
+			{path: '/repo/node_modules/.cache', size: 50, reclaimableSize: 50},
+			{path: '/repo/.next', size: 30},
+		]),
+	).toBe(130);
+
+	expect(isMostlyHardLinked({diskUsage: 900, reclaimableSize: 100})).toBe(true);
+	expect(isMostlyHardLinked({diskUsage: 900, reclaimableSize: 800})).toBe(
+		false,
+	);
+	expect(isMostlyHardLinked({})).toBe(false);
+});
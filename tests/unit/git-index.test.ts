@@ -0,0 +1,84 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {execFile} from 'node:child_process';
+import {promisify} from 'node:util';
+import {expect, test} from 'bun:test';
+import {findTrackedFiles, parseGitIndex} from '../../src/core/git-index.js';
+
+const execFileAsync = promisify(execFile);
+
+const createTempDirectory = async (): Promise<string> =>
+	fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-git-'));
+
+const git = async (cwd: string, args: string[]) =>
+	execFileAsync('git', args, {cwd});
+
+const createRepository = async (): Promise<string> => {
+	const cwd = await createTempDirectory();
+	const files = [
+		'package.json',
+		'build/index.js',
+		'build/nested/chunk.js',
+		'src/a-file-with-a-rather-long-name-to-cross-padding-boundaries.ts',
+	];
+	for (const file of files) {
+		await fs.mkdir(path.dirname(path.join(cwd, file)), {recursive: true});
+		await fs.writeFile(path.join(cwd, file), file);
+	}
+
+	await git(cwd, ['init', '--quiet']);
+	await git(cwd, ['add', '.']);
+	return cwd;
+};
+
+test('parseGitIndex reads paths from index versions 2, 3 and 4', async () => {
+	const cwd = await createRepository();
+	const expected = [
+		'build/index.js',
+		'build/nested/chunk.js',
+		'package.json',
+		'src/a-file-with-a-rather-long-name-to-cross-padding-boundaries.ts',
+	];
+
+	await git(cwd, ['update-index', '--index-version', '2']);
+	expect(
+		parseGitIndex(await fs.readFile(path.join(cwd, '.git/index'))),
+	).toEqual(expected);
+
+	// Intent-to-add entries carry the extended flags that only exist in v3+.
+	await fs.writeFile(path.join(cwd, 'pending.ts'), '');
+	await git(cwd, ['add', '--intent-to-add', 'pending.ts']);
+	await git(cwd, ['update-index', '--index-version', '3']);
+	expect(
+		parseGitIndex(await fs.readFile(path.join(cwd, '.git/index'))),
+	).toEqual([...expected.slice(0, 3), 'pending.ts', expected[3]]);
+
+	await git(cwd, ['update-index', '--index-version', '4']);
+	expect(
+		parseGitIndex(await fs.readFile(path.join(cwd, '.git/index'))),
+	).toEqual([...expected.slice(0, 3), 'pending.ts', expected[3]]);
+
+	expect(() => parseGitIndex(Buffer.from('not an index'))).toThrow();
+});
+
+test('findTrackedFiles reports tracked files under candidate paths', async () => {
+	const cwd = await createRepository();
+	await fs.mkdir(path.join(cwd, '.next'), {recursive: true});
+
+	const tracked = await findTrackedFiles(
+		[path.join(cwd, 'build'), path.join(cwd, '.next')],
+		cwd,
+	);
+
+	expect([...tracked.keys()]).toEqual([path.join(cwd, 'build')]);
+	expect(tracked.get(path.join(cwd, 'build'))).toEqual([
+		path.join(cwd, 'build', 'index.js'),
+		path.join(cwd, 'build', 'nested', 'chunk.js'),
+	]);
+
+	const outside = await createTempDirectory();
+	expect(
+		(await findTrackedFiles([path.join(outside, 'build')], outside)).size,
+	).toBe(0);
+});
@@ -0,0 +1,69 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {expect, test} from 'bun:test';
+import {
+	findGlobalCaches,
+	resolveGlobalCacheLocations,
+} from '../../src/core/global-caches.js';
+
+const home = path.resolve('/home/dev');
+
+test('resolveGlobalCacheLocations uses the default user-level locations', () => {
+	expect(
+		resolveGlobalCacheLocations({}, home).map(location => [
+			location.tool,
+			location.path,
+		]),
+	).toEqual([
+		['npm', path.join(home, '.npm/_cacache')],
+		['pnpm', path.join(home, '.local/share/pnpm/store')],
+		['yarn', path.join(home, '.cache/yarn')],
+		['bun', path.join(home, '.bun/install/cache')],
+		['next-swc', path.join(home, '.cache/next-swc')],
+		['playwright', path.join(home, '.cache/ms-playwright')],
+	]);
+});
+
+test('resolveGlobalCacheLocations follows the tool environment variables', () => {
+	const locations = resolveGlobalCacheLocations(
+		{
+			npm_config_cache: '/var/cache/npm',
+			PNPM_HOME: '/opt/pnpm',
+			YARN_CACHE_FOLDER: '/var/cache/yarn',
+			XDG_CACHE_HOME: '/var/cache/dev',
+		},
+		home,
+	);
+	const pathByTool = new Map(
+		locations.map(location => [location.tool, location.path]),
+	);
+
+	expect(pathByTool.get('npm')).toBe(path.resolve('/var/cache/npm/_cacache'));
+	expect(pathByTool.get('pnpm')).toBe(path.resolve('/opt/pnpm/store'));
+	expect(pathByTool.get('yarn')).toBe(path.resolve('/var/cache/yarn'));
+	expect(pathByTool.get('next-swc')).toBe(
+		path.resolve('/var/cache/dev/next-swc'),
+	);
+});
+
+test('findGlobalCaches keeps existing directories and skips symlinks', async () => {
+	const tempHome = await fs.mkdtemp(
+		path.join(os.tmpdir(), 'next-prune-global-'),
+	);
+	const elsewhere = await fs.mkdtemp(
+		path.join(os.tmpdir(), 'next-prune-global-'),
+	);
+	await fs.mkdir(path.join(tempHome, '.npm/_cacache'), {recursive: true});
+	await fs.mkdir(path.join(tempHome, '.cache'), {recursive: true});
+	await fs.symlink(elsewhere, path.join(tempHome, '.cache/next-swc'), 'dir');
+
+	const caches = await findGlobalCaches({}, tempHome);
+	expect(caches).toEqual([
+		{
+			path: path.join(tempHome, '.npm/_cacache'),
+			cleanupType: 'pm-cache',
+			tool: 'npm',
+		},
+	]);
+});
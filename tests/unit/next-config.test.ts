@@ -0,0 +1,162 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {expect, test} from 'bun:test';
+import {
+	NEXT_PHASES,
+	resolveNextConfigDistDirs,
+} from '../../src/core/next-config.js';
+
+const createTempDirectory = async (): Promise<string> =>
+	fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-next-config-'));
+
+const writeConfig = async (fileName: string, source: string) => {
+	const cwd = await createTempDirectory();
+	const configPath = path.join(cwd, fileName);
+	await fs.writeFile(configPath, source);
+	return configPath;
+};
+
+test('resolveNextConfigDistDirs evaluates env fallbacks and indirection', async () => {
+	const configPath = await writeConfig(
+		'next.config.mjs',
+		[
+			"const dir = process.env.NEXT_PRUNE_UNSET_BUILD_DIR ?? 'build';",
+			'const config = {distDir: `${dir}/web`};',
+			'export default config;',
+		].join('\n'),
+	);
+
+	const distDirs = await resolveNextConfigDistDirs(configPath, {
+		evaluate: true,
+	});
+	expect(distDirs).toEqual([
+		{
+			distDir: 'build/web',
+			phases: Object.values(NEXT_PHASES),
+			resolvedBy: 'evaluation',
+		},
+	]);
+});
+
+test('resolveNextConfigDistDirs records the phase of function-form configs', async () => {
+	const configPath = await writeConfig(
+		'next.config.ts',
+		[
+			"import type {NextConfig} from 'next';",
+			"import {PHASE_DEVELOPMENT_SERVER} from 'next/constants';",
+			"import withAnalyzer from '@next/bundle-analyzer';",
+			'',
+			'export default (phase: string): NextConfig =>',
+			'\twithAnalyzer({enabled: false})({',
+			"\t\tdistDir: phase === PHASE_DEVELOPMENT_SERVER ? '.next-dev' : 'dist',",
+			'\t});',
+		].join('\n'),
+	);
+
+	const distDirs = await resolveNextConfigDistDirs(configPath, {
+		evaluate: true,
+	});
+	const phasesByDistDir = new Map(
+		distDirs.map(distDir => [distDir.distDir, distDir.phases]),
+	);
+
+	expect(phasesByDistDir.get('.next-dev')).toEqual([
+		NEXT_PHASES.PHASE_DEVELOPMENT_SERVER,
+	]);
+	expect(phasesByDistDir.get('dist')).toHaveLength(
+		Object.values(NEXT_PHASES).length - 1,
+	);
+});
+
+test('resolveNextConfigDistDirs falls back to the pattern when evaluation fails', async () => {
+	const configPath = await writeConfig(
+		'next.config.js',
+		[
+			'// The helper is only defined in the real build environment.',
+			"module.exports = {distDir: 'build-output', env: loadBuildEnv()};",
+		].join('\n'),
+	);
+
+	expect(await resolveNextConfigDistDirs(configPath, {evaluate: true})).toEqual(
+		[{distDir: 'build-output', phases: [], resolvedBy: 'pattern'}],
+	);
+});
+
+test('resolveNextConfigDistDirs only evaluates when asked to', async () => {
+	const configPath = await writeConfig(
+		'next.config.js',
+		"const dir = 'dist/web';\nmodule.exports = {distDir: dir};",
+	);
+
+	expect(await resolveNextConfigDistDirs(configPath)).toEqual([]);
+	expect(
+		await resolveNextConfigDistDirs(configPath, {evaluate: true}),
+	).toMatchObject([{distDir: 'dist/web', resolvedBy: 'evaluation'}]);
+});
+
+test('resolveNextConfigDistDirs keeps host objects out of the sandbox', async () => {
+	const configPath = await writeConfig(
+		'next.config.mjs',
+		[
+			'const markerPath = `${import.meta.dirname}/escaped`;',
+			'for (const root of [module, globalThis, process, console]) {',
+			'\ttry {',
+			"\t\tconst hostProcess = root.constructor.constructor('return process')();",
+			"\t\thostProcess.getBuiltinModule('fs').writeFileSync(markerPath, '');",
+			'\t} catch {}',
+			'}',
+			"export default {distDir: 'build'};",
+		].join('\n'),
+	);
+
+	const distDirs = await resolveNextConfigDistDirs(configPath, {
+		evaluate: true,
+	});
+	expect(distDirs[0]?.resolvedBy).toBe('evaluation');
+	expect(
+		await fs
+			.access(path.join(path.dirname(configPath), 'escaped'))
+			.then(() => true)
+			.catch(() => false),
+	).toBe(false);
+});
+
+test('resolveNextConfigDistDirs only passes allowlisted env to the config', async () => {
+	const configPath = await writeConfig(
+		'next.config.js',
+		[
+			'module.exports = {',
+			"\tdistDir: process.env.PRUNE_TEST_TOKEN ?? process.env.NEXT_PRUNE_TEST_DIST ?? 'none',",
+			'};',
+		].join('\n'),
+	);
+
+	process.env.PRUNE_TEST_TOKEN = 'leaked';
+	process.env.NEXT_PRUNE_TEST_DIST = 'allowed';
+	try {
+		const distDirs = await resolveNextConfigDistDirs(configPath, {
+			evaluate: true,
+		});
+		expect(distDirs.map(({distDir}) => distDir)).toEqual(['allowed']);
+	} finally {
+		delete process.env.PRUNE_TEST_TOKEN;
+		delete process.env.NEXT_PRUNE_TEST_DIST;
+	}
+});
+
+test('resolveNextConfigDistDirs kills a config that never settles', async () => {
+	const configPath = await writeConfig(
+		'next.config.mjs',
+		[
+			"const config = {distDir: 'build'};",
+			'await null;',
+			'while (true) {}',
+			'export default config;',
+		].join('\n'),
+	);
+
+	expect(await resolveNextConfigDistDirs(configPath, {evaluate: true})).toEqual(
+		[{distDir: 'build', phases: [], resolvedBy: 'pattern'}],
+	);
+}, 10_000);
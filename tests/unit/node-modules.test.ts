@@ -0,0 +1,68 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {expect, test} from 'bun:test';
+import {inspectNodeModules} from '../../src/core/node-modules.js';
+
+const installTime = new Date('2026-01-01T00:00:00Z');
+const hourLater = new Date('2026-01-01T01:00:00Z');
+
+const createPackage = async (
+	files: Record<string, Date>,
+): Promise<{directory: string; nodeModules: string}> => {
+	const directory = await fs.mkdtemp(
+		path.join(os.tmpdir(), 'next-prune-node-modules-'),
+	);
+	const nodeModules = path.join(directory, 'node_modules');
+	await fs.mkdir(nodeModules);
+	for (const [file, mtime] of Object.entries(files)) {
+		const filePath = path.join(directory, file);
+		await fs.writeFile(filePath, '');
+		await fs.utimes(filePath, mtime, mtime);
+	}
+
+	await fs.utimes(nodeModules, installTime, installTime);
+	return {directory, nodeModules};
+};
+
+test('inspectNodeModules leaves an up-to-date install untagged', async () => {
+	const {nodeModules} = await createPackage({
+		'package.json': installTime,
+		'pnpm-lock.yaml': installTime,
+		'node_modules/.modules.yaml': new Date('2026-01-01T00:00:30Z'),
+	});
+
+	expect(await inspectNodeModules(nodeModules)).toEqual([]);
+});
+
+test('inspectNodeModules tags an install older than its lockfile as stale', async () => {
+	const {nodeModules} = await createPackage({
+		'package.json': installTime,
+		'package-lock.json': hourLater,
+		'node_modules/.package-lock.json': installTime,
+	});
+
+	expect(await inspectNodeModules(nodeModules)).toEqual(['stale']);
+});
+
+test('inspectNodeModules compares package.json and the directory without a lockfile or marker', async () => {
+	const {nodeModules} = await createPackage({'package.json': hourLater});
+
+	expect(await inspectNodeModules(nodeModules)).toEqual(['stale']);
+});
+
+test('inspectNodeModules tags node_modules without a package.json as orphaned', async () => {
+	const {nodeModules} = await createPackage({});
+
+	expect(await inspectNodeModules(nodeModules)).toEqual(['orphaned']);
+});
+
+test('inspectNodeModules tags an install by another package manager as foreign', async () => {
+	const {nodeModules} = await createPackage({
+		'package.json': installTime,
+		'pnpm-lock.yaml': installTime,
+		'node_modules/.package-lock.json': installTime,
+	});
+
+	expect(await inspectNodeModules(nodeModules)).toEqual(['foreign']);
+});
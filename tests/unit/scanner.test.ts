@@ -2,7 +2,19 @@ import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import {expect, test} from 'bun:test';
-import {getArtifactStats, scanArtifacts} from '../../src/core/scanner.js';
+import {getTotalSize, isMostlyHardLinked} from '../../src/core/delete.js';
+import {createDirectoryNameDetector} from '../../src/core/detectors.js';
+import {
+	SCAN_ABORTED_MESSAGE,
+	getArtifactStats,
+	scanArtifacts,
+	scanArtifactsStream,
+} from '../../src/core/scanner.js';
+import {
+	discoverWorkspaces,
+	findProjectRoots,
+} from '../../src/core/workspaces.js';
+import type {ScanEvent, SkippedSymlink} from '../../src/core/types.js';
 
 const createTempDirectory = async (): Promise<string> =>
 	fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-scan-'));
@@ -98,6 +110,20 @@ test('scanArtifacts includes node_modules candidates in both workspace and proje
 	).toBe(true);
 });
 
+test('scanArtifacts tags node_modules installed by another package manager', async () => {
+	const cwd = await createTempDirectory();
+	await fs.mkdir(path.join(cwd, 'node_modules'));
+	await fs.writeFile(path.join(cwd, 'package.json'), '{}');
+	await fs.writeFile(path.join(cwd, 'yarn.lock'), '');
+	await fs.writeFile(path.join(cwd, 'node_modules/.modules.yaml'), '');
+
+	const items = await scanArtifacts(cwd);
+	const nodeModules = items.find(
+		item => item.path === path.join(cwd, 'node_modules'),
+	);
+	expect(nodeModules?.nodeModulesTags).toEqual(['foreign']);
+});
+
 test('scanArtifacts includes project node_modules candidates in project scope', async () => {
 	const cwd = await createTempDirectory();
 	await fs.mkdir(path.join(cwd, 'node_modules/react'), {recursive: true});
@@ -169,6 +195,36 @@ test('scanArtifacts discovers pnpm workspace directories in manifest-only mode',
 	expect(relativePaths).toEqual([path.join('apps', 'site', '.next')]);
 });
 
+test('scanArtifacts expands braces in pnpm workspace negations', async () => {
+	const cwd = await createTempDirectory();
+	await fs.writeFile(
+		path.join(cwd, 'package.json'),
+		JSON.stringify({name: 'repo', private: true}),
+	);
+	for (const name of ['site', 'ignored', 'legacy']) {
+		const appDir = path.join(cwd, 'apps', name);
+		await fs.mkdir(path.join(appDir, '.next'), {recursive: true});
+		await fs.writeFile(
+			path.join(appDir, 'package.json'),
+			JSON.stringify({name}),
+		);
+	}
+
+	await fs.writeFile(
+		path.join(cwd, 'pnpm-workspace.yaml'),
+		['packages:', '  - "apps/*"', '  - "!apps/{ignored,legacy}"'].join('\n'),
+	);
+
+	const items = await scanArtifacts(cwd, {
+		cleanupScopes: ['workspace'],
+		monorepoMode: 'on',
+		workspaceDiscoveryMode: 'manifest-only',
+	});
+	const relativePaths = items.map(item => path.relative(cwd, item.path));
+
+	expect(relativePaths).toEqual([path.join('apps', 'site', '.next')]);
+});
+
 test('scanArtifacts discovers lerna workspace directories in manifest-only mode', async () => {
 	const cwd = await createTempDirectory();
 	const workspaceDir = path.join(cwd, 'packages/web');
@@ -237,3 +293,1054 @@ test('scanArtifacts ignores candidates that resolve outside root via symlink', a
 
 	expect(relativePaths.has('dist-link')).toBe(false);
 });
+
+const createLinkedPackageFixture = async (): Promise<{
+	cwd: string;
+	outsideRoot: string;
+}> => {
+	const cwd = await createTempDirectory();
+	const outsideRoot = await createTempDirectory();
+
+	await fs.mkdir(path.join(cwd, 'vendor/ui/.next'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'vendor/ui/.next/build.txt'), 'build');
+	await fs.mkdir(path.join(cwd, 'packages'), {recursive: true});
+	await fs.symlink(
+		path.join(cwd, 'vendor/ui'),
+		path.join(cwd, 'packages/ui'),
+		'dir',
+	);
+	await fs.mkdir(path.join(outsideRoot, 'dist-output'), {recursive: true});
+	await fs.symlink(
+		path.join(outsideRoot, 'dist-output'),
+		path.join(cwd, 'dist-link'),
+		'dir',
+	);
+	await fs.writeFile(
+		path.join(cwd, 'next.config.js'),
+		"module.exports = { distDir: 'dist-link' };\n",
+	);
+
+	return {cwd, outsideRoot};
+};
+
+test('scanArtifactsStream reports skipped symlinks and their targets', async () => {
+	const {cwd, outsideRoot} = await createLinkedPackageFixture();
+	const vendorRealpath = await fs.realpath(path.join(cwd, 'vendor/ui'));
+	const outsideRealpath = await fs.realpath(
+		path.join(outsideRoot, 'dist-output'),
+	);
+
+	const events: ScanEvent[] = [];
+	for await (const event of scanArtifactsStream(cwd, {symlinks: 'report'})) {
+		events.push(event);
+	}
+
+	const skipped = events
+		.flatMap(event => (event.type === 'symlink-skipped' ? [event.symlink] : []))
+		.sort((left, right) => left.path.localeCompare(right.path));
+	expect(skipped).toEqual([
+		{
+			path: path.join(cwd, 'dist-link'),
+			target: outsideRealpath,
+			reason: 'outside-root',
+		},
+		{
+			path: path.join(cwd, 'packages/ui'),
+			target: vendorRealpath,
+			reason: 'not-followed',
+		},
+	]);
+});
+
+test('scanArtifacts no longer lists a symlinked candidate as the link itself', async () => {
+	const cwd = await createTempDirectory();
+	await fs.mkdir(path.join(cwd, 'build/next'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'build/next/chunk.js'), 'x'.repeat(50));
+	await fs.symlink(
+		path.join(cwd, 'build/next'),
+		path.join(cwd, 'out-link'),
+		'dir',
+	);
+	await fs.writeFile(
+		path.join(cwd, 'next.config.js'),
+		"module.exports = { distDir: 'out-link' };\n",
+	);
+	const targetRealpath = await fs.realpath(path.join(cwd, 'build/next'));
+
+	// Earlier versions listed `out-link` at the size of the link, so deleting
+	// it freed nothing; the default `skip` policy drops it instead.
+	expect(await scanArtifacts(cwd)).toEqual([]);
+
+	const skipped: SkippedSymlink[] = [];
+	for await (const event of scanArtifactsStream(cwd, {symlinks: 'report'})) {
+		if (event.type === 'symlink-skipped') skipped.push(event.symlink);
+	}
+
+	expect(skipped).toEqual([
+		{
+			path: path.join(cwd, 'out-link'),
+			target: targetRealpath,
+			reason: 'not-followed',
+		},
+	]);
+
+	const followed = await scanArtifacts(cwd, {symlinks: 'follow-contained'});
+	expect(followed.map(item => [item.path, item.size])).toEqual([
+		[targetRealpath, 50],
+	]);
+});
+
+test('scanArtifacts follows contained symlinks only with follow-contained', async () => {
+	const {cwd} = await createLinkedPackageFixture();
+	// Keep the real package out of the walk so only the link can reach it.
+	const options = {skipDirs: ['vendor']};
+
+	const skipped = await scanArtifacts(cwd, options);
+	expect(skipped.map(item => item.path)).toEqual([]);
+
+	const followed = await scanArtifacts(cwd, {
+		...options,
+		symlinks: 'follow-contained',
+	});
+	expect(followed.map(item => item.path)).toEqual([
+		path.join(cwd, 'packages/ui/.next'),
+	]);
+	expect(followed[0]?.size).toBe('build'.length);
+});
+
+test('scanArtifacts runs registered detectors alongside the built-in rules', async () => {
+	const cwd = await createTempDirectory();
+
+	await fs.mkdir(path.join(cwd, '.next'), {recursive: true});
+	await fs.mkdir(path.join(cwd, 'apps/web/.cache-output'), {recursive: true});
+	await fs.mkdir(path.join(cwd, 'apps/docs/.cache-output'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'apps/web/tool.config.json'), '{}');
+
+	const items = await scanArtifacts(cwd, {
+		detectors: [
+			createDirectoryNameDetector({
+				name: 'tool',
+				directoryNames: ['.cache-output'],
+				siblingFiles: ['tool.config.json'],
+			}),
+		],
+	});
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual(
+		['.next', path.join('apps', 'web', '.cache-output')].sort(),
+	);
+	expect(itemByRelativePath.get('.next')?.detector).toBe('next');
+	expect(
+		itemByRelativePath.get(path.join('apps', 'web', '.cache-output'))?.detector,
+	).toBe('tool');
+});
+
+test('scanArtifacts lets detectors claim directories without proposing them', async () => {
+	const cwd = await createTempDirectory();
+
+	await fs.mkdir(path.join(cwd, 'vendor/.next'), {recursive: true});
+	await fs.mkdir(path.join(cwd, '.vercel'), {recursive: true});
+	await fs.writeFile(path.join(cwd, '.vercel/project.json'), '{}');
+
+	const items = await scanArtifacts(cwd, {
+		detectors: [
+			{
+				name: 'vendor',
+				detect: context => (context.entry.name === 'vendor' ? [] : null),
+			},
+		],
+	});
+
+	expect(items).toEqual([]);
+});
+
+test('scanArtifacts splits .next into granular sub-candidates when enabled', async () => {
+	const cwd = await createTempDirectory();
+	const nextDir = path.join(cwd, '.next');
+
+	await fs.mkdir(path.join(nextDir, 'cache/webpack'), {recursive: true});
+	await fs.mkdir(path.join(nextDir, 'cache/images'), {recursive: true});
+	await fs.mkdir(path.join(nextDir, 'server'), {recursive: true});
+	await fs.mkdir(path.join(nextDir, 'standalone'), {recursive: true});
+	await fs.writeFile(path.join(nextDir, 'trace'), '[]');
+
+	const wholeItems = await scanArtifacts(cwd);
+	expect(wholeItems.map(item => path.relative(cwd, item.path))).toEqual([
+		'.next',
+	]);
+
+	const items = await scanArtifacts(cwd, {granularNextCache: true});
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual(
+		[
+			path.join('.next', 'cache', 'images'),
+			path.join('.next', 'cache', 'webpack'),
+			path.join('.next', 'standalone'),
+			path.join('.next', 'trace'),
+		].sort(),
+	);
+	expect(
+		itemByRelativePath.get(path.join('.next', 'cache', 'webpack'))?.cleanupType,
+	).toBe('next-cache');
+	expect(
+		itemByRelativePath.get(path.join('.next', 'standalone'))?.cleanupType,
+	).toBe('next-standalone');
+	expect(itemByRelativePath.get(path.join('.next', 'trace'))?.cleanupType).toBe(
+		'next-trace',
+	);
+	for (const item of items) {
+		expect(item.parentPath).toBe(nextDir);
+	}
+});
+
+test('scanArtifacts records how an evaluated distDir was resolved', async () => {
+	const cwd = await createTempDirectory();
+
+	await fs.mkdir(path.join(cwd, 'build'), {recursive: true});
+	await fs.writeFile(
+		path.join(cwd, 'next.config.js'),
+		[
+			"const dir = process.env.NEXT_PRUNE_UNSET_BUILD_DIR ?? 'build';",
+			'module.exports = () => ({distDir: dir});',
+		].join('\n'),
+	);
+
+	const items = await scanArtifacts(cwd, {evaluateNextConfig: true});
+	expect(items.map(item => path.relative(cwd, item.path))).toEqual(['build']);
+	expect(items[0]?.nextDistDir).toMatchObject({
+		configFile: path.join(cwd, 'next.config.js'),
+		distDir: 'build',
+		resolvedBy: 'evaluation',
+	});
+	expect(items[0]?.nextDistDir?.phases.length).toBeGreaterThan(0);
+});
+
+test('scanArtifacts discovers task-runner caches keyed off root manifests', async () => {
+	const cwd = await createTempDirectory();
+
+	await fs.mkdir(path.join(cwd, '.nx/cache'), {recursive: true});
+	await fs.mkdir(path.join(cwd, '.nx/workspace-data'), {recursive: true});
+	await fs.mkdir(path.join(cwd, '.turbo'), {recursive: true});
+	await fs.mkdir(path.join(cwd, 'common/temp/build-cache'), {recursive: true});
+	await fs.mkdir(path.join(cwd, '.lerna-cache'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'nx.json'), '{}');
+
+	const items = await scanArtifacts(cwd, {cleanupScopes: ['project']});
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual(
+		[
+			'.turbo',
+			path.join('.nx', 'cache'),
+			path.join('.nx', 'workspace-data'),
+		].sort(),
+	);
+	expect(itemByRelativePath.get(path.join('.nx', 'cache'))).toMatchObject({
+		cleanupType: 'task-cache',
+		taskRunner: 'nx',
+	});
+	expect(itemByRelativePath.get('.turbo')?.cleanupType).toBe('task-cache');
+
+	await fs.writeFile(path.join(cwd, 'rush.json'), '{}');
+	await fs.writeFile(path.join(cwd, 'lerna.json'), '{}');
+	const withAllManifests = await scanArtifacts(cwd, {
+		cleanupScopes: ['project'],
+	});
+	const relativePaths = new Set(
+		withAllManifests.map(item => path.relative(cwd, item.path)),
+	);
+	expect(relativePaths.has(path.join('common', 'temp', 'build-cache'))).toBe(
+		true,
+	);
+	expect(relativePaths.has('.lerna-cache')).toBe(true);
+});
+
+test('scanArtifacts only reports test-runner output next to the runner config', async () => {
+	const cwd = await createTempDirectory();
+	const webDir = path.join(cwd, 'apps/web');
+	const docsDir = path.join(cwd, 'apps/docs');
+
+	await fs.mkdir(path.join(webDir, 'playwright-report'), {recursive: true});
+	await fs.mkdir(path.join(webDir, 'test-results'), {recursive: true});
+	await fs.mkdir(path.join(webDir, 'cypress/videos'), {recursive: true});
+	await fs.mkdir(path.join(webDir, 'cypress/e2e'), {recursive: true});
+	await fs.mkdir(path.join(webDir, 'node_modules/.vitest'), {recursive: true});
+	await fs.mkdir(path.join(webDir, 'coverage'), {recursive: true});
+	await fs.writeFile(path.join(webDir, 'playwright.config.ts'), '');
+	await fs.writeFile(path.join(webDir, 'cypress.config.ts'), '');
+	await fs.writeFile(path.join(webDir, 'vitest.config.mts'), '');
+	await fs.mkdir(path.join(docsDir, 'test-results'), {recursive: true});
+
+	const items = await scanArtifacts(cwd, {includeNodeModules: false});
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual(
+		[
+			path.join('apps', 'web', 'coverage'),
+			path.join('apps', 'web', 'cypress', 'videos'),
+			path.join('apps', 'web', 'node_modules', '.vitest'),
+			path.join('apps', 'web', 'playwright-report'),
+			path.join('apps', 'web', 'test-results'),
+		].sort(),
+	);
+	for (const item of items) {
+		expect(item.cleanupType).toBe('test-output');
+	}
+});
+
+test('scanArtifacts proposes tsconfig build outputs through extends and references', async () => {
+	const cwd = await createTempDirectory();
+	const libDir = path.join(cwd, 'packages/lib');
+	const utilsDir = path.join(cwd, 'packages/utils');
+
+	await fs.mkdir(path.join(libDir, 'lib'), {recursive: true});
+	await fs.mkdir(path.join(libDir, 'types'), {recursive: true});
+	await fs.mkdir(path.join(utilsDir, 'dist'), {recursive: true});
+	await fs.writeFile(
+		path.join(cwd, 'tsconfig.base.json'),
+		[
+			'{',
+			'\t// Shared by every package.',
+			'\t"compilerOptions": {"composite": true, "paths": {"@/*": ["./src/*"]},},',
+			'}',
+		].join('\n'),
+	);
+	await fs.writeFile(
+		path.join(cwd, 'tsconfig.json'),
+		JSON.stringify({
+			files: [],
+			references: [{path: './packages/lib'}, {path: './packages/utils'}],
+		}),
+	);
+	await fs.writeFile(
+		path.join(libDir, 'tsconfig.json'),
+		JSON.stringify({
+			extends: '../../tsconfig.base.json',
+			compilerOptions: {outDir: 'lib', declarationDir: './types'},
+		}),
+	);
+	await fs.writeFile(path.join(libDir, 'lib/tsconfig.tsbuildinfo'), '{}');
+	await fs.writeFile(
+		path.join(utilsDir, 'tsconfig.json'),
+		JSON.stringify({compilerOptions: {outDir: '..'}}),
+	);
+
+	const items = await scanArtifacts(cwd);
+	const relativePaths = items
+		.map(item => path.relative(cwd, item.path))
+		.sort((left, right) => left.localeCompare(right));
+
+	expect(relativePaths).toEqual([
+		path.join('packages', 'lib', 'lib'),
+		path.join('packages', 'lib', 'types'),
+	]);
+	expect(items.every(item => item.detector === 'tsconfig')).toBe(true);
+});
+
+test('scanArtifacts offers node_modules/.cache children without node_modules', async () => {
+	const cwd = await createTempDirectory();
+
+	await fs.mkdir(path.join(cwd, 'node_modules/react'), {recursive: true});
+	await fs.mkdir(path.join(cwd, 'node_modules/.cache/babel-loader'), {
+		recursive: true,
+	});
+	await fs.mkdir(path.join(cwd, 'node_modules/.cache/nx'), {recursive: true});
+
+	const items = await scanArtifacts(cwd, {includeNodeModules: false});
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual([
+		path.join('node_modules', '.cache', 'babel-loader'),
+		path.join('node_modules', '.cache', 'nx'),
+	]);
+	expect(
+		itemByRelativePath.get(path.join('node_modules', '.cache', 'babel-loader')),
+	).toMatchObject({
+		cleanupType: 'tool-cache',
+		parentPath: path.join(cwd, 'node_modules', '.cache'),
+	});
+	expect(
+		itemByRelativePath.get(path.join('node_modules', '.cache', 'nx'))
+			?.cleanupType,
+	).toBe('task-cache');
+
+	const withNodeModules = await scanArtifacts(cwd);
+	expect(
+		withNodeModules.map(item => path.relative(cwd, item.path)).sort(),
+	).toEqual([
+		'node_modules',
+		path.join('node_modules', '.cache', 'babel-loader'),
+		path.join('node_modules', '.cache', 'nx'),
+	]);
+});
+
+test('scanArtifacts counts a nested candidate in the candidate around it', async () => {
+	const cwd = await createTempDirectory();
+	const cachePath = path.join(cwd, 'node_modules/.cache/babel-loader');
+
+	await fs.mkdir(path.join(cachePath, 'chunks'), {recursive: true});
+	await fs.mkdir(path.join(cwd, 'node_modules/react'), {recursive: true});
+	await fs.writeFile(path.join(cachePath, 'chunks', 'a.json'), 'a'.repeat(300));
+	await fs.writeFile(path.join(cachePath, 'b.json'), 'b'.repeat(200));
+	await fs.writeFile(path.join(cwd, 'node_modules/react/index.js'), 'r');
+
+	const items = await scanArtifacts(cwd);
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect(
+		itemByRelativePath.get(path.join('node_modules', '.cache', 'babel-loader')),
+	).toMatchObject({apparentSize: 500, fileCount: 2});
+	expect(itemByRelativePath.get('node_modules')).toMatchObject({
+		apparentSize: 501,
+		fileCount: 3,
+	});
+	const nodeModulesStats = await getArtifactStats(
+		path.join(cwd, 'node_modules'),
+	);
+	expect(itemByRelativePath.get('node_modules')?.diskUsage).toBe(
+		nodeModulesStats.diskUsage,
+	);
+});
+
+test('scanArtifacts proposes turbo.json task outputs per workspace', async () => {
+	const cwd = await createTempDirectory();
+	const webDir = path.join(cwd, 'packages/web');
+	const docsDir = path.join(cwd, 'packages/docs');
+	const libDir = path.join(cwd, 'packages/lib');
+
+	await fs.writeFile(
+		path.join(cwd, 'package.json'),
+		JSON.stringify({name: 'repo', private: true, workspaces: ['packages/*']}),
+	);
+	await fs.writeFile(
+		path.join(cwd, 'turbo.json'),
+		[
+			'{',
+			'\t// Outputs are relative to each package.',
+			'\t"tasks": {',
+			'\t\t"build": {"outputs": ["dist/**", ".next/**", "!.next/cache/**"]},',
+			'\t\t"docs#build": {"outputs": ["generated/**", "!generated/keep/**"]},',
+			'\t\t"//#lint": {"outputs": [".eslintcache"]},',
+			'\t},',
+			'}',
+		].join('\n'),
+	);
+	await fs.writeFile(path.join(cwd, '.eslintcache'), '{}');
+
+	for (const [directory, name] of [
+		[webDir, 'web'],
+		[docsDir, 'docs'],
+		[libDir, 'lib'],
+	] as const) {
+		await fs.mkdir(directory, {recursive: true});
+		await fs.writeFile(
+			path.join(directory, 'package.json'),
+			JSON.stringify({name}),
+		);
+	}
+
+	await fs.mkdir(path.join(webDir, '.next/cache'), {recursive: true});
+	await fs.mkdir(path.join(docsDir, 'generated/api'), {recursive: true});
+	await fs.mkdir(path.join(docsDir, 'generated/keep'), {recursive: true});
+	await fs.mkdir(path.join(docsDir, 'dist'), {recursive: true});
+	await fs.mkdir(path.join(libDir, 'dist'), {recursive: true});
+	await fs.mkdir(path.join(libDir, 'lib'), {recursive: true});
+	await fs.writeFile(
+		path.join(libDir, 'turbo.json'),
+		JSON.stringify({
+			extends: ['//'],
+			tasks: {build: {outputs: ['$TURBO_EXTENDS$', 'lib/**']}},
+		}),
+	);
+
+	const items = await scanArtifacts(cwd);
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual(
+		[
+			'.eslintcache',
+			path.join('packages', 'docs', 'generated', 'api'),
+			path.join('packages', 'lib', 'dist'),
+			path.join('packages', 'lib', 'lib'),
+			path.join('packages', 'web', '.next'),
+		].sort(),
+	);
+	expect(itemByRelativePath.get('.eslintcache')).toMatchObject({
+		cleanupScope: 'project',
+		detector: 'turbo-outputs',
+		turboTasks: ['lint'],
+	});
+	expect(
+		itemByRelativePath.get(path.join('packages', 'lib', 'lib')),
+	).toMatchObject({cleanupScope: 'workspace', turboTasks: ['build']});
+	expect(
+		itemByRelativePath.get(path.join('packages', 'web', '.next')),
+	).toMatchObject({detector: 'next', turboTasks: ['build']});
+});
+
+test('scanArtifacts keeps turbo.json outputs out of a granular .next', async () => {
+	const cwd = await createTempDirectory();
+	const nextDir = path.join(cwd, '.next');
+
+	await fs.writeFile(
+		path.join(cwd, 'package.json'),
+		JSON.stringify({name: 'web', dependencies: {next: '15.0.0'}}),
+	);
+	await fs.writeFile(
+		path.join(cwd, 'turbo.json'),
+		JSON.stringify({
+			tasks: {build: {outputs: ['.next/**', '!.next/cache/**']}},
+		}),
+	);
+	await fs.mkdir(path.join(nextDir, 'cache/webpack'), {recursive: true});
+	await fs.mkdir(path.join(nextDir, 'server'), {recursive: true});
+	await fs.mkdir(path.join(nextDir, 'static'), {recursive: true});
+
+	const items = await scanArtifacts(cwd, {granularNextCache: true});
+
+	expect(items.map(item => path.relative(cwd, item.path))).toEqual([
+		path.join('.next', 'cache', 'webpack'),
+	]);
+	expect(items[0]).toMatchObject({detector: 'next', parentPath: nextDir});
+});
+
+test('scanArtifacts skips turbo.json outputs without a literal leading directory', async () => {
+	const cwd = await createTempDirectory();
+
+	await fs.writeFile(
+		path.join(cwd, 'turbo.json'),
+		JSON.stringify({
+			tasks: {build: {outputs: ['*', '*.js', '**/*.map', 'dist/**']}},
+		}),
+	);
+	await fs.mkdir(path.join(cwd, 'src'), {recursive: true});
+	await fs.mkdir(path.join(cwd, 'dist'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'src/index.ts'), 'export {};');
+	await fs.writeFile(path.join(cwd, 'index.js'), 'export {};');
+	await fs.writeFile(path.join(cwd, 'index.js.map'), '{}');
+
+	const items = await scanArtifacts(cwd);
+	expect(items.map(item => path.relative(cwd, item.path))).toEqual(['dist']);
+});
+
+test('scanArtifacts only offers regenerable deployment adapter output', async () => {
+	const cwd = await createTempDirectory();
+
+	for (const directory of [
+		'.open-next/server-functions',
+		'.netlify/functions-internal',
+		'.netlify/edge-functions',
+		'.wrangler/state/v3',
+		'.wrangler/tmp',
+		'.wrangler/config',
+		'.vercel/output',
+		'.vercel/cache',
+		'node_modules/.cache/wrangler',
+		'node_modules/.cache/terser',
+	]) {
+		await fs.mkdir(path.join(cwd, directory), {recursive: true});
+	}
+
+	await fs.writeFile(path.join(cwd, '.netlify/state.json'), '{}');
+	await fs.writeFile(path.join(cwd, '.vercel/project.json'), '{}');
+
+	const items = await scanArtifacts(cwd, {includeNodeModules: false});
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual(
+		[
+			'.open-next',
+			path.join('.netlify', 'edge-functions'),
+			path.join('.netlify', 'functions-internal'),
+			path.join('.vercel', 'cache'),
+			path.join('.vercel', 'output'),
+			path.join('.wrangler', 'state'),
+			path.join('.wrangler', 'tmp'),
+			path.join('node_modules', '.cache', 'terser'),
+		].sort(),
+	);
+	expect(itemByRelativePath.get('.open-next')?.deployAdapter).toBe('open-next');
+	expect(
+		itemByRelativePath.get(path.join('.wrangler', 'tmp'))?.deployAdapter,
+	).toBe('cloudflare');
+	expect(
+		itemByRelativePath.get(path.join('.netlify', 'edge-functions'))
+			?.deployAdapter,
+	).toBe('netlify');
+});
+
+test('scanArtifacts confirms ambiguous framework output via package.json', async () => {
+	const cwd = await createTempDirectory();
+	const remixDir = path.join(cwd, 'apps/remix');
+	const nuxtDir = path.join(cwd, 'apps/nuxt');
+	const toolDir = path.join(cwd, 'apps/tool');
+
+	await fs.mkdir(path.join(remixDir, 'build/server'), {recursive: true});
+	await fs.mkdir(path.join(remixDir, 'public/build'), {recursive: true});
+	await fs.writeFile(
+		path.join(remixDir, 'package.json'),
+		JSON.stringify({devDependencies: {'@remix-run/dev': '^2.0.0'}}),
+	);
+	await fs.mkdir(path.join(nuxtDir, '.nuxt'), {recursive: true});
+	await fs.mkdir(path.join(nuxtDir, '.output/public'), {recursive: true});
+	await fs.mkdir(path.join(nuxtDir, 'node_modules/.vite/deps'), {
+		recursive: true,
+	});
+	await fs.mkdir(path.join(nuxtDir, 'node_modules/.vite/vitest'), {
+		recursive: true,
+	});
+	await fs.writeFile(
+		path.join(nuxtDir, 'package.json'),
+		JSON.stringify({dependencies: {nuxt: '^3.0.0'}}),
+	);
+	await fs.mkdir(path.join(toolDir, 'build'), {recursive: true});
+	await fs.mkdir(path.join(toolDir, '.output'), {recursive: true});
+	await fs.mkdir(path.join(toolDir, '.angular/cache'), {recursive: true});
+	await fs.writeFile(path.join(toolDir, 'package.json'), '{}');
+
+	const items = await scanArtifacts(cwd, {includeNodeModules: false});
+	const frameworkByRelativePath = Object.fromEntries(
+		items.map(item => [path.relative(cwd, item.path), item.framework]),
+	);
+
+	expect(frameworkByRelativePath).toEqual({
+		[path.join('apps', 'remix', 'build')]: 'remix',
+		[path.join('apps', 'remix', 'public', 'build')]: 'remix',
+		[path.join('apps', 'nuxt', '.nuxt')]: 'nuxt',
+		[path.join('apps', 'nuxt', '.output')]: 'nuxt',
+		[path.join('apps', 'nuxt', 'node_modules', '.vite', 'deps')]: 'vite',
+		[path.join('apps', 'tool', '.angular', 'cache')]: 'angular',
+	});
+});
+
+test('scanArtifacts turns extraArtifacts matches into contained candidates', async () => {
+	const cwd = await createTempDirectory();
+	const outside = await createTempDirectory();
+	const webDir = path.join(cwd, 'packages/web');
+
+	await fs.writeFile(
+		path.join(cwd, 'package.json'),
+		JSON.stringify({name: 'repo', private: true, workspaces: ['packages/*']}),
+	);
+	await fs.mkdir(webDir, {recursive: true});
+	await fs.writeFile(path.join(webDir, 'package.json'), '{"name":"web"}');
+	await fs.mkdir(path.join(cwd, 'tmp/screenshots'), {recursive: true});
+	await fs.mkdir(path.join(webDir, 'tmp/screenshots'), {recursive: true});
+	await fs.mkdir(path.join(webDir, 'src'), {recursive: true});
+	await fs.writeFile(path.join(webDir, 'src/.eslintcache'), '{}');
+	await fs.mkdir(path.join(webDir, 'node_modules/pkg'), {recursive: true});
+	await fs.writeFile(path.join(webDir, 'node_modules/pkg/.eslintcache'), '{}');
+	await fs.mkdir(path.join(webDir, '.next'), {recursive: true});
+	await fs.mkdir(path.join(outside, 'recorded'), {recursive: true});
+	await fs.symlink(
+		path.join(outside, 'recorded'),
+		path.join(cwd, 'recorded'),
+		'dir',
+	);
+
+	const items = await scanArtifacts(cwd, {
+		includeNodeModules: false,
+		extraArtifacts: [
+			{pattern: 'tmp/screenshots', scope: 'project', protected: true},
+			{pattern: '**/.eslintcache', type: 'tool-cache'},
+			{pattern: '.next', protected: true},
+			{pattern: 'recorded'},
+		],
+	});
+	const itemByRelativePath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+
+	expect([...itemByRelativePath.keys()].sort()).toEqual(
+		[
+			path.join('packages', 'web', '.next'),
+			path.join('packages', 'web', 'src', '.eslintcache'),
+			path.join('tmp', 'screenshots'),
+		].sort(),
+	);
+	expect(itemByRelativePath.get(path.join('tmp', 'screenshots'))).toMatchObject(
+		{
+			cleanupScope: 'project',
+			cleanupType: 'artifact',
+			detector: 'extra-artifacts',
+			protected: true,
+		},
+	);
+	expect(
+		itemByRelativePath.get(path.join('packages', 'web', 'src', '.eslintcache')),
+	).toMatchObject({cleanupScope: 'workspace', cleanupType: 'tool-cache'});
+	expect(
+		itemByRelativePath.get(path.join('packages', 'web', '.next')),
+	).toMatchObject({detector: 'next', protected: true});
+});
+
+test('scanArtifacts annotates candidates with their git ignore status', async () => {
+	const cwd = await createTempDirectory();
+
+	for (const directory of [
+		'.git/info',
+		'.next',
+		'coverage',
+		'out',
+		'storybook-static',
+		'apps/web/out',
+	]) {
+		await fs.mkdir(path.join(cwd, directory), {recursive: true});
+	}
+
+	await fs.writeFile(
+		path.join(cwd, '.gitignore'),
+		'# build output\n/.next/\ncoverage\n',
+	);
+	await fs.writeFile(path.join(cwd, '.git/info/exclude'), 'storybook-static\n');
+	await fs.writeFile(path.join(cwd, 'apps/web/.gitignore'), 'out/\n');
+
+	const items = await scanArtifacts(cwd);
+	const gitIgnoredByRelativePath = Object.fromEntries(
+		items.map(item => [path.relative(cwd, item.path), item.gitIgnored]),
+	);
+
+	expect(gitIgnoredByRelativePath).toEqual({
+		'.next': true,
+		coverage: true,
+		out: false,
+		'storybook-static': true,
+		[path.join('apps', 'web', 'out')]: true,
+	});
+
+	const ignoredOnly = await scanArtifacts(cwd, {requireGitIgnored: true});
+	expect(ignoredOnly.map(item => path.relative(cwd, item.path))).not.toContain(
+		'out',
+	);
+	expect(ignoredOnly).toHaveLength(4);
+
+	const outsideRepository = await createTempDirectory();
+	await fs.mkdir(path.join(outsideRepository, '.next'), {recursive: true});
+	const [outsideItem] = await scanArtifacts(outsideRepository, {
+		requireGitIgnored: true,
+	});
+	expect(outsideItem?.gitIgnored).toBeUndefined();
+});
+
+test('scanArtifactsStream reports visited directories, found and sized candidates', async () => {
+	const cwd = await createTempDirectory();
+	await fs.mkdir(path.join(cwd, 'apps/web/.next'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'apps/web/.next/build.js'), 'x'.repeat(64));
+	await fs.mkdir(path.join(cwd, 'coverage'), {recursive: true});
+
+	const events: ScanEvent[] = [];
+	for await (const event of scanArtifactsStream(cwd)) {
+		events.push(event);
+	}
+
+	const visited = events.filter(event => event.type === 'directory-visited');
+	expect(visited.map(event => path.relative(cwd, event.path))).toEqual(
+		expect.arrayContaining(['', 'apps', path.join('apps', 'web')]),
+	);
+	expect(visited.at(-1)?.directoriesVisited).toBe(visited.length);
+
+	const found = events.flatMap(event =>
+		event.type === 'candidate-found' ? [path.relative(cwd, event.path)] : [],
+	);
+	expect(found.sort()).toEqual([path.join('apps', 'web', '.next'), 'coverage']);
+
+	const lastFoundIndex = events.findLastIndex(
+		event => event.type === 'candidate-found',
+	);
+	const sizedEvents = events.filter(event => event.type === 'candidate-sized');
+	expect(events.indexOf(sizedEvents[0]!)).toBeGreaterThan(lastFoundIndex);
+
+	const sized = sizedEvents.flatMap(event =>
+		event.type === 'candidate-sized' ? [event.item] : [],
+	);
+	expect(sized.find(item => item.path.endsWith('.next'))?.size).toBe(64);
+	expect(await scanArtifacts(cwd)).toEqual(
+		[...sized].sort((left, right) => right.size - left.size),
+	);
+});
+
+test('scanArtifactsStream resolves partial results when the signal aborts', async () => {
+	const cwd = await createTempDirectory();
+	await fs.mkdir(path.join(cwd, 'apps/web/.next/cache'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'apps/web/.next/build.js'), 'x'.repeat(64));
+	await fs.mkdir(path.join(cwd, 'packages/ui/coverage'), {recursive: true});
+
+	const controller = new AbortController();
+	const sized: ScanEvent[] = [];
+	for await (const event of scanArtifactsStream(cwd, {
+		signal: controller.signal,
+	})) {
+		if (event.type === 'candidate-found') controller.abort();
+		if (event.type === 'candidate-sized') sized.push(event);
+	}
+
+	// Candidates found before the abort are still sized, but only partially.
+	expect(sized.length).toBeGreaterThan(0);
+	for (const event of sized) {
+		if (event.type !== 'candidate-sized') continue;
+		expect(event.item.error).toBe(SCAN_ABORTED_MESSAGE);
+	}
+
+	const abortedBeforeStart = new AbortController();
+	abortedBeforeStart.abort();
+	expect(await scanArtifacts(cwd, {signal: abortedBeforeStart.signal})).toEqual(
+		[],
+	);
+	expect(
+		await getArtifactStats(path.join(cwd, 'apps'), {
+			signal: abortedBeforeStart.signal,
+		}),
+	).toMatchObject({size: 0, isDirectory: true, error: SCAN_ABORTED_MESSAGE});
+});
+
+test('discoverWorkspaces flags an aborted discovery', async () => {
+	const cwd = await createTempDirectory();
+	await fs.mkdir(path.join(cwd, 'packages/ui'), {recursive: true});
+	await fs.writeFile(
+		path.join(cwd, 'package.json'),
+		JSON.stringify({workspaces: ['packages/*']}),
+	);
+	await fs.writeFile(path.join(cwd, 'packages/ui/package.json'), '{}');
+
+	const completed = await discoverWorkspaces(cwd);
+	expect(completed.aborted).toBe(false);
+	expect(completed.workspaceDirectories).toHaveLength(1);
+
+	const controller = new AbortController();
+	controller.abort();
+	const aborted = await discoverWorkspaces(cwd, 'manifest-fallback', {
+		signal: controller.signal,
+	});
+	expect(aborted).toMatchObject({
+		aborted: true,
+		source: 'none',
+		workspaceDirectories: [],
+	});
+});
+
+test('scanArtifacts reports disk usage that hardlinks actually free', async () => {
+	const cwd = await createTempDirectory();
+	const store = await createTempDirectory();
+	const content = 'x'.repeat(64 * 1024);
+	await fs.writeFile(path.join(store, 'react.js'), content);
+	await fs.mkdir(path.join(cwd, 'node_modules/react'), {recursive: true});
+	await fs.link(
+		path.join(store, 'react.js'),
+		path.join(cwd, 'node_modules/react/index.js'),
+	);
+
+	// Two builds sharing one file: only deleting both frees it.
+	await fs.mkdir(path.join(cwd, 'apps/a/.next'), {recursive: true});
+	await fs.mkdir(path.join(cwd, 'apps/b/.next'), {recursive: true});
+	await fs.writeFile(path.join(cwd, 'apps/a/.next/chunk.js'), content);
+	await fs.link(
+		path.join(cwd, 'apps/a/.next/chunk.js'),
+		path.join(cwd, 'apps/b/.next/chunk.js'),
+	);
+
+	const items = await scanArtifacts(cwd);
+	const byPath = new Map(
+		items.map(item => [path.relative(cwd, item.path), item]),
+	);
+	const nodeModules = byPath.get('node_modules');
+	const buildA = byPath.get(path.join('apps', 'a', '.next'));
+	const buildB = byPath.get(path.join('apps', 'b', '.next'));
+	if (!nodeModules || !buildA || !buildB) throw new Error('missing items');
+
+	expect(nodeModules.apparentSize).toBe(content.length);
+	expect(nodeModules.size).toBe(nodeModules.apparentSize);
+	expect(nodeModules.diskUsage).toBeGreaterThanOrEqual(content.length);
+	expect(nodeModules.reclaimableSize).toBeLessThan(content.length);
+	expect(isMostlyHardLinked(nodeModules)).toBe(true);
+
+	const sharedBytes = buildA.diskUsage - buildA.reclaimableSize;
+	expect(buildB.reclaimableSize).toBeLessThan(buildB.diskUsage);
+	expect(sharedBytes).toBe(0);
+	expect(
+		buildA.reclaimableSize - buildB.reclaimableSize,
+	).toBeGreaterThanOrEqual(content.length);
+	expect(getTotalSize([buildA, buildB])).toBe(
+		buildA.reclaimableSize + buildB.reclaimableSize,
+	);
+});
+
+test('scanArtifacts reuses the scan index for unchanged directories', async () => {
+	const cwd = await createTempDirectory();
+	const cacheDirectory = await createTempDirectory();
+	await fs.mkdir(path.join(cwd, '.next/cache'), {recursive: true});
+	await fs.writeFile(path.join(cwd, '.next/cache/data.bin'), 'abc');
+
+	const first = await scanArtifacts(cwd, {cacheDirectory});
+	expect(first[0]?.size).toBe(3);
+	expect(await fs.readdir(cacheDirectory)).toHaveLength(1);
+
+	// Rewriting a file in place leaves every directory mtime alone, so only a
+	// rebuilt index notices.
+	await fs.appendFile(path.join(cwd, '.next/cache/data.bin'), 'def');
+	const cached = await scanArtifacts(cwd, {cacheDirectory});
+	expect(cached[0]?.size).toBe(3);
+	const rebuilt = await scanArtifacts(cwd, {
+		cacheDirectory,
+		rebuildCache: true,
+	});
+	expect(rebuilt[0]?.size).toBe(6);
+
+	// A new file changes its directory's mtime and gets that directory listed.
+	await fs.writeFile(path.join(cwd, '.next/cache/more.bin'), 'ghij');
+	const rescanned = await scanArtifacts(cwd, {cacheDirectory});
+	expect(rescanned[0]?.size).toBe(10);
+	expect(rescanned[0]?.fileCount).toBe(2);
+});
+
+test('findProjectRoots stops at Next.js projects and workspace roots', async () => {
+	const cwd = await createTempDirectory();
+	const writeManifest = async (directory: string, manifest: object) => {
+		await fs.mkdir(path.join(cwd, directory), {recursive: true});
+		await fs.writeFile(
+			path.join(cwd, directory, 'package.json'),
+			JSON.stringify(manifest),
+		);
+	};
+
+	await writeManifest('shop', {name: 'shop', dependencies: {next: '15.0.0'}});
+	await writeManifest('clients/blog', {devDependencies: {next: '14.2.0'}});
+	await writeManifest('mono', {name: 'mono', workspaces: ['apps/*']});
+	await writeManifest('mono/apps/web', {dependencies: {next: '15.0.0'}});
+	await writeManifest('tools/cli', {dependencies: {meow: '13.0.0'}});
+	await writeManifest('.archive/old', {dependencies: {next: '13.0.0'}});
+	await writeManifest('shop/node_modules/next/example', {
+		dependencies: {next: '15.0.0'},
+	});
+
+	const roots = await findProjectRoots(cwd);
+
+	expect(
+		roots.map(root => ({...root, path: path.relative(cwd, root.path)})),
+	).toEqual([
+		{path: path.join('clients', 'blog'), kind: 'next'},
+		{path: 'mono', kind: 'workspace', name: 'mono'},
+		{path: 'shop', kind: 'next', name: 'shop'},
+	]);
+});
+
+test('findProjectRoots searches at most maxDepth levels down', async () => {
+	const cwd = await createTempDirectory();
+	const writeNextManifest = async (directory: string) => {
+		await fs.mkdir(path.join(cwd, directory), {recursive: true});
+		await fs.writeFile(
+			path.join(cwd, directory, 'package.json'),
+			JSON.stringify({dependencies: {next: '15.0.0'}}),
+		);
+	};
+
+	await writeNextManifest('org/site');
+	await writeNextManifest('org/team/group/app');
+	await writeNextManifest('a/b/c/d/e/f/g/deep');
+
+	const toRelative = (roots: Array<{path: string}>) =>
+		roots.map(root => path.relative(cwd, root.path));
+	expect(toRelative(await findProjectRoots(cwd))).toEqual([
+		path.join('org', 'site'),
+		path.join('org', 'team', 'group', 'app'),
+	]);
+	expect(toRelative(await findProjectRoots(cwd, {maxDepth: 2}))).toEqual([
+		path.join('org', 'site'),
+	]);
+	expect(toRelative(await findProjectRoots(cwd, {maxDepth: 8}))).toHaveLength(
+		3,
+	);
+});
+
+test('scanArtifacts annotates candidates with their package and build', async () => {
+	const cwd = await createTempDirectory();
+	const webDirectory = path.join(cwd, 'apps/web');
+	await fs.writeFile(
+		path.join(cwd, 'package.json'),
+		JSON.stringify({name: 'monorepo', workspaces: ['apps/*']}),
+	);
+	await fs.mkdir(path.join(cwd, '.turbo'), {recursive: true});
+	await fs.mkdir(path.join(webDirectory, '.next'), {recursive: true});
+	await fs.writeFile(
+		path.join(webDirectory, 'package.json'),
+		JSON.stringify({
+			name: 'web',
+			dependencies: {next: '15.1.0'},
+			devDependencies: {next: '14.0.0'},
+		}),
+	);
+	await fs.writeFile(path.join(webDirectory, '.next/BUILD_ID'), 'abc123\n');
+	const buildTime = new Date('2024-05-01T12:00:00Z');
+	await fs.utimes(
+		path.join(webDirectory, '.next/BUILD_ID'),
+		buildTime,
+		buildTime,
+	);
+
+	const items = await scanArtifacts(cwd);
+	const nextBuild = items.find(item => item.path.endsWith('.next'));
+	const turboCache = items.find(item => item.path.endsWith('.turbo'));
+
+	expect(nextBuild).toMatchObject({
+		packageName: 'web',
+		nextVersion: '15.1.0',
+		buildId: 'abc123',
+		buildTime,
+		workspaceDirectory: webDirectory,
+	});
+	expect(turboCache?.packageName).toBe('monorepo');
+	expect(turboCache?.buildId).toBeUndefined();
+	expect(turboCache?.workspaceDirectory).toBeUndefined();
+});
+
+// `/dev/shm` is a tmpfs mount on most Linux machines, and nothing below it is
+// written to, so it can stand in for a bind-mounted `.next`.
+const hasShmMount = await Promise.all([fs.stat('/dev'), fs.stat('/dev/shm')])
+	.then(([dev, shm]) => dev.dev !== shm.dev)
+	.catch(() => false);
+
+test.skipIf(!hasShmMount)(
+	'scanArtifactsStream stays on the root filesystem with oneFileSystem',
+	async () => {
+		const options = {
+			cleanupScopes: ['project' as const],
+			maxDepth: 0,
+			extraArtifacts: [{pattern: 'shm'}],
+		};
+		const crossing = await scanArtifacts('/dev', options);
+		expect(crossing.map(item => item.path)).toContain('/dev/shm');
+
+		const events: ScanEvent[] = [];
+		for await (const event of scanArtifactsStream('/dev', {
+			...options,
+			oneFileSystem: true,
+		})) {
+			events.push(event);
+		}
+
+		expect(
+			events.some(
+				event =>
+					event.type === 'candidate-sized' && event.item.path === '/dev/shm',
+			),
+		).toBe(false);
+		expect(events).toContainEqual({type: 'mount-skipped', path: '/dev/shm'});
+	},
+);
@@ -0,0 +1,136 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {expect, test} from 'bun:test';
+import {getArtifactStats, scanArtifacts} from '../../src/core/scanner.js';
+import {
+	createWorkQueue,
+	parseConcurrency,
+	walkTree,
+} from '../../src/core/work-queue.js';
+
+const createTempDirectory = async (): Promise<string> =>
+	fs.mkdtemp(path.join(os.tmpdir(), 'next-prune-queue-'));
+
+test('createWorkQueue never runs more jobs than its concurrency', async () => {
+	const queue = createWorkQueue(3);
+	let active = 0;
+	let peak = 0;
+	const finished: number[] = [];
+
+	await new Promise<void>(resolve => {
+		for (let index = 0; index < 20; index++) {
+			queue.add(async () => {
+				active++;
+				peak = Math.max(peak, active);
+				await new Promise(resolve => {
+					setTimeout(resolve, 1);
+				});
+				active--;
+				finished.push(index);
+				if (finished.length === 20) resolve();
+			});
+		}
+	});
+
+	expect(peak).toBe(3);
+	expect(finished.sort((left, right) => left - right)).toEqual(
+		Array.from({length: 20}, (_, index) => index),
+	);
+});
+
+test('createWorkQueue keeps running after a job fails', async () => {
+	const queue = createWorkQueue(1);
+	queue.add(async () => {
+		throw new Error('boom');
+	});
+
+	expect(
+		await new Promise<string>(resolve => {
+			queue.add(async () => {
+				resolve('next');
+			});
+		}),
+	).toBe('next');
+});
+
+test('parseConcurrency only accepts positive integers', () => {
+	expect(parseConcurrency(8)).toBe(8);
+	expect(parseConcurrency(' 16 ')).toBe(16);
+	expect(() => parseConcurrency(0)).toThrow('Invalid concurrency');
+	expect(() => parseConcurrency(1.5)).toThrow('Invalid concurrency');
+	expect(() => parseConcurrency('many')).toThrow('Invalid concurrency');
+});
+
+test('walkTree visits every node and surfaces the first error', async () => {
+	const tree: Record<string, string[]> = {
+		root: ['a', 'b'],
+		a: ['a1'],
+		b: ['b1', 'b2'],
+	};
+	const visited: string[] = [];
+
+	await walkTree(createWorkQueue(2), ['root'], async node => {
+		visited.push(node);
+		return tree[node] ?? [];
+	});
+	expect(visited.sort()).toEqual(['a', 'a1', 'b', 'b1', 'b2', 'root']);
+
+	await expect(
+		walkTree(createWorkQueue(2), ['root'], async node => {
+			if (node === 'b') throw new Error(`cannot visit ${node}`);
+			return tree[node] ?? [];
+		}),
+	).rejects.toThrow('cannot visit b');
+});
+
+test('walkTree keeps visits within the queue concurrency', async () => {
+	const tree = new Map<number, number[]>([
+		[0, [1, 2, 3, 4, 5]],
+		[1, [6, 7, 8]],
+		[5, [9, 10, 11, 12]],
+	]);
+	let active = 0;
+	let peak = 0;
+	const visited: number[] = [];
+
+	await walkTree(createWorkQueue(3), [0], async node => {
+		active++;
+		peak = Math.max(peak, active);
+		await new Promise(resolve => {
+			setTimeout(resolve, 1);
+		});
+		active--;
+		visited.push(node);
+		return tree.get(node) ?? [];
+	});
+
+	expect(peak).toBe(3);
+	expect(visited.sort((left, right) => left - right)).toEqual(
+		Array.from({length: 13}, (_, index) => index),
+	);
+	await walkTree(createWorkQueue(3), [], async () => []);
+});
+
+test('scans size deep trees the same at any concurrency', async () => {
+	const cwd = await createTempDirectory();
+	let directory = path.join(cwd, '.next');
+	for (let depth = 0; depth < 12; depth++) {
+		directory = path.join(directory, `level-${depth}`);
+		await fs.mkdir(directory, {recursive: true});
+		await fs.writeFile(path.join(directory, 'chunk.js'), 'x'.repeat(10));
+	}
+
+	const serial = await getArtifactStats(path.join(cwd, '.next'), {
+		concurrency: 1,
+	});
+	expect(serial).toMatchObject({size: 120, fileCount: 12, isDirectory: true});
+	expect(serial.error).toBeUndefined();
+
+	const [item] = await scanArtifacts(cwd, {concurrency: 1});
+	expect(item).toMatchObject({size: 120, fileCount: 12});
+	expect(await scanArtifacts(cwd, {concurrency: 256})).toEqual([item!]);
+	await expect(scanArtifacts(cwd, {concurrency: 0})).rejects.toThrow(
+		'Invalid concurrency',
+	);
+});